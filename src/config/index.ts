@@ -16,6 +16,9 @@ if (!process.env['DJANGO_WEBHOOK_SECRET']) {
   process.env['DJANGO_WEBHOOK_SECRET'] = 'test-webhook';
 }
 
+// Secrets that only exist so development works without a .env
+const PLACEHOLDER_WEBHOOK_SECRETS = ['test-webhook', 'default-webhook-secret', 'your-webhook-secret'];
+
 // Ensure NODE_ENV is set to development
 if (!process.env['NODE_ENV']) {
   process.env['NODE_ENV'] = 'development';
@@ -55,6 +58,15 @@ const configSchema = z.object({
     message: "Must be a valid URL or empty"
   }),
   DJANGO_WEBHOOK_SECRET: z.string().default('default-webhook-secret'),
+  DJANGO_WEBHOOK_TOLERANCE: z.coerce.number().min(1).default(300),
+  DJANGO_REQUEST_TIMEOUT: z.coerce.number().min(100).default(5000),
+  DJANGO_BREAKER_FAILURE_THRESHOLD: z.coerce.number().min(1).default(5),
+  DJANGO_BREAKER_RESET_TIMEOUT: z.coerce.number().min(1000).default(30000),
+  DJANGO_CACHE_TTL_USER: z.coerce.number().min(0).default(60000),
+  DJANGO_CACHE_TTL_ROOM_ACCESS: z.coerce.number().min(0).default(30000),
+  DJANGO_CACHE_TTL_ROOM_POLICY: z.coerce.number().min(0).default(30000),
+  DJANGO_CACHE_TTL_ENTITLEMENTS: z.coerce.number().min(0).default(60000),
+  DJANGO_FAIL_OPEN: z.string().default('roomPolicy,entitlements'),
 
   // Redis Configuration
   REDIS_URL: z.string().url().default('redis://127.0.0.1:6379'),
@@ -76,6 +88,7 @@ const configSchema = z.object({
   RATE_LIMIT_MAX_REQUESTS: z.coerce.number().min(1).default(100),
   JWT_ISSUER: z.string().default('deensfu'),
   JWT_AUDIENCE: z.string().default('deensfu-client'),
+  ADMIN_API_KEY: z.string().optional(),
 
   // Logging Configuration
   LOG_LEVEL: z.enum(['fatal', 'error', 'warn', 'info', 'debug', 'trace']).default('info'),
@@ -93,6 +106,11 @@ const configSchema = z.object({
   MAX_PARTICIPANTS_PER_ROOM: z.coerce.number().min(1).max(1000).default(100),
   ROOM_CLEANUP_INTERVAL: z.coerce.number().min(1000).default(300000),
   ROOM_IDLE_TIMEOUT: z.coerce.number().min(1000).default(1800000),
+  ROOM_RECV_TRANSPORTS_PER_ROUTER: z.coerce.number().min(1).default(50),
+  ROOM_MAX_ROUTERS: z.coerce.number().min(1).max(32).default(4),
+  ROOM_RECONCILE_INTERVAL: z.coerce.number().min(1000).default(60000),
+  ROOM_POLICY_REFRESH_INTERVAL: z.coerce.number().min(1000).default(60000),
+  MAX_DEVICES_PER_USER: z.coerce.number().min(1).max(10).default(1),
 
   // Codec Configuration
   PREFERRED_CODECS: z.string().default('VP8,VP9,AV1'),
@@ -113,9 +131,42 @@ const configSchema = z.object({
   E2EE_ENABLED: z.coerce.boolean().default(false),
   E2EE_KEY_DERIVATION_ITERATIONS: z.coerce.number().min(10000).max(1000000).default(100000),
 
+  // Recording Configuration
+  RECORDING_DIRECTORY: z.string().default('./recordings'),
+  RECORDING_PROCESS: z.enum(['ffmpeg', 'gstreamer']).default('ffmpeg'),
+  RECORDING_FFMPEG_PATH: z.string().default('ffmpeg'),
+  RECORDING_GSTREAMER_PATH: z.string().default('gst-launch-1.0'),
+  RECORDING_LISTEN_IP: z.string().default('127.0.0.1'),
+  RECORDING_RTP_MIN_PORT: z.coerce.number().min(1024).max(65535).default(20000),
+  RECORDING_RTP_MAX_PORT: z.coerce.number().min(1024).max(65535).default(20999),
+
+  // Speaker Detection Configuration
+  AUDIO_LEVEL_INTERVAL: z.coerce.number().min(100).default(800),
+  AUDIO_LEVEL_THRESHOLD: z.coerce.number().min(-127).max(0).default(-70),
+  AUDIO_LEVEL_MAX_ENTRIES: z.coerce.number().min(1).max(100).default(5),
+  ACTIVE_SPEAKER_INTERVAL: z.coerce.number().min(100).default(300),
+  ACTIVE_SPEAKER_THROTTLE: z.coerce.number().min(0).default(1000),
+
   // Load Balancing
   INSTANCE_ID: z.string().default('sfu-001'),
   CLUSTER_MODE: z.coerce.boolean().default(false),
+  PUBLIC_URL: z.string().optional().refine((val) => !val || z.string().url().safeParse(val).success, {
+    message: "Must be a valid URL or empty"
+  }),
+  INSTANCE_HEARTBEAT_INTERVAL: z.coerce.number().min(1000).default(15000),
+
+  // Drain Configuration
+  DRAIN_GRACE_PERIOD: z.coerce.number().min(0).default(120000),
+
+  // Session Configuration
+  RECONNECT_GRACE_PERIOD: z.coerce.number().min(0).default(30000),
+  TOKEN_EXPIRY_WARNING: z.coerce.number().min(0).default(60000),
+
+  // Webhook Outbox Configuration
+  WEBHOOK_MAX_ATTEMPTS: z.coerce.number().min(1).default(10),
+  WEBHOOK_RETRY_BASE_DELAY: z.coerce.number().min(100).default(1000),
+  WEBHOOK_RETRY_MAX_DELAY: z.coerce.number().min(1000).default(300000),
+  WEBHOOK_POLL_INTERVAL: z.coerce.number().min(100).default(2000),
 });
 
 // Parse and validate configuration
@@ -156,6 +207,26 @@ const appConfig = {
     jwtAlgorithm: parsedConfig.DJANGO_JWT_ALGORITHM as 'HS256' | 'RS256',
     jwksUrl: parsedConfig.DJANGO_JWKS_URL,
     webhookSecret: parsedConfig.DJANGO_WEBHOOK_SECRET,
+    // False while DJANGO_WEBHOOK_SECRET is unset or a placeholder
+    webhookSecretConfigured: !PLACEHOLDER_WEBHOOK_SECRETS.includes(parsedConfig.DJANGO_WEBHOOK_SECRET),
+    // Seconds a signed request's X-Django-Timestamp may differ from the clock
+    webhookTolerance: parsedConfig.DJANGO_WEBHOOK_TOLERANCE,
+    requestTimeout: parsedConfig.DJANGO_REQUEST_TIMEOUT,
+    breaker: {
+      // Consecutive failures that open the circuit
+      failureThreshold: parsedConfig.DJANGO_BREAKER_FAILURE_THRESHOLD,
+      // How long the circuit stays open before a probe request is let through
+      resetTimeout: parsedConfig.DJANGO_BREAKER_RESET_TIMEOUT,
+    },
+    // Milliseconds answers are reused for, 0 disables caching
+    cacheTtl: {
+      user: parsedConfig.DJANGO_CACHE_TTL_USER,
+      roomAccess: parsedConfig.DJANGO_CACHE_TTL_ROOM_ACCESS,
+      roomPolicy: parsedConfig.DJANGO_CACHE_TTL_ROOM_POLICY,
+      entitlements: parsedConfig.DJANGO_CACHE_TTL_ENTITLEMENTS,
+    },
+    // Calls answered with their defaults while Django is unavailable, the others are refused
+    failOpen: parsedConfig.DJANGO_FAIL_OPEN.split(',').map(endpoint => endpoint.trim()).filter(Boolean),
   },
   redis: {
     url: parsedConfig.REDIS_URL,
@@ -181,6 +252,7 @@ const appConfig = {
       issuer: parsedConfig.JWT_ISSUER,
       audience: parsedConfig.JWT_AUDIENCE,
     },
+    adminApiKey: parsedConfig.ADMIN_API_KEY,
   },
   logging: {
     level: parsedConfig.LOG_LEVEL,
@@ -198,6 +270,12 @@ const appConfig = {
     maxParticipants: parsedConfig.MAX_PARTICIPANTS_PER_ROOM,
     cleanupInterval: parsedConfig.ROOM_CLEANUP_INTERVAL,
     idleTimeout: parsedConfig.ROOM_IDLE_TIMEOUT,
+    recvTransportsPerRouter: parsedConfig.ROOM_RECV_TRANSPORTS_PER_ROUTER,
+    maxRouters: parsedConfig.ROOM_MAX_ROUTERS,
+    reconcileInterval: parsedConfig.ROOM_RECONCILE_INTERVAL,
+    policyRefreshInterval: parsedConfig.ROOM_POLICY_REFRESH_INTERVAL,
+    // Devices one user may have in a room at once, unless the room policy says otherwise
+    maxDevicesPerUser: parsedConfig.MAX_DEVICES_PER_USER,
   },
   codecs: {
     preferred: parsedConfig.PREFERRED_CODECS.split(',').map(codec => codec.trim()),
@@ -220,9 +298,45 @@ const appConfig = {
     enabled: parsedConfig.E2EE_ENABLED,
     keyDerivationIterations: parsedConfig.E2EE_KEY_DERIVATION_ITERATIONS,
   },
+  recording: {
+    directory: path.resolve(process.cwd(), parsedConfig.RECORDING_DIRECTORY),
+    process: parsedConfig.RECORDING_PROCESS,
+    ffmpegPath: parsedConfig.RECORDING_FFMPEG_PATH,
+    gstreamerPath: parsedConfig.RECORDING_GSTREAMER_PATH,
+    listenIp: parsedConfig.RECORDING_LISTEN_IP,
+    rtpMinPort: parsedConfig.RECORDING_RTP_MIN_PORT,
+    rtpMaxPort: parsedConfig.RECORDING_RTP_MAX_PORT,
+  },
+  speaker: {
+    audioLevelInterval: parsedConfig.AUDIO_LEVEL_INTERVAL,
+    audioLevelThreshold: parsedConfig.AUDIO_LEVEL_THRESHOLD,
+    audioLevelMaxEntries: parsedConfig.AUDIO_LEVEL_MAX_ENTRIES,
+    activeSpeakerInterval: parsedConfig.ACTIVE_SPEAKER_INTERVAL,
+    activeSpeakerThrottle: parsedConfig.ACTIVE_SPEAKER_THROTTLE,
+  },
   cluster: {
     instanceId: parsedConfig.INSTANCE_ID,
     mode: parsedConfig.CLUSTER_MODE,
+    // WebSocket URL clients are redirected to when a room lives on this instance
+    publicUrl: parsedConfig.PUBLIC_URL || `ws://${parsedConfig.HOST}:${parsedConfig.PORT}/ws`,
+    heartbeatInterval: parsedConfig.INSTANCE_HEARTBEAT_INTERVAL,
+  },
+  drain: {
+    gracePeriod: parsedConfig.DRAIN_GRACE_PERIOD,
+  },
+  session: {
+    // How long a dropped participant is kept for resumeSession, 0 disables it
+    reconnectGracePeriod: parsedConfig.RECONNECT_GRACE_PERIOD,
+    // How long before the JWT expires the client is sent tokenExpiring
+    tokenExpiryWarning: parsedConfig.TOKEN_EXPIRY_WARNING,
+  },
+  webhook: {
+    // Deliveries before a webhook moves to the dead-letter table
+    maxAttempts: parsedConfig.WEBHOOK_MAX_ATTEMPTS,
+    // Retry delays double from the base delay up to the max delay
+    retryBaseDelay: parsedConfig.WEBHOOK_RETRY_BASE_DELAY,
+    retryMaxDelay: parsedConfig.WEBHOOK_RETRY_MAX_DELAY,
+    pollInterval: parsedConfig.WEBHOOK_POLL_INTERVAL,
   },
 } as const;
 
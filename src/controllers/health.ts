@@ -1,6 +1,8 @@
 import { Request, Response } from 'express';
 import { healthService } from '@/services/health';
 import { metricsService } from '@/services/metrics';
+import { clusterService } from '@/services/cluster';
+import { config } from '@/config';
 import { logSystemEvent } from '@/utils/logger';
 
 // const logger = createLogger({ component: 'health-controller' });
@@ -174,6 +176,10 @@ export class HealthController {
         },
         checks: healthStatus.checks,
         metrics: healthStatus.metrics,
+        cluster: {
+          mode: config.cluster.mode,
+          instances: await clusterService.getInstances(),
+        },
       });
     } catch (error) {
       logSystemEvent('error', 'Status check failed', 'health-controller', {
@@ -0,0 +1,38 @@
+import { Request, Response } from 'express';
+import { revocationService } from '@/services/revocation';
+import { SFUError } from '@/types';
+import { ERROR_CODES } from '@/utils/errors';
+import { validateRequest, tokenRevocationSchema } from '@/utils/validation';
+import { logSystemEvent } from '@/utils/logger';
+
+// const logger = createLogger({ component: 'revocation-controller' });
+
+export class RevocationController {
+  // Django calls this on logout and when an account is disabled, the request is signed
+  async revoke(req: Request, res: Response): Promise<void> {
+    try {
+      const data = validateRequest(tokenRevocationSchema, req.body ?? {});
+
+      await revocationService.revoke(data.jti, data.exp);
+
+      res.status(204).end();
+    } catch (error) {
+      const code = error instanceof SFUError ? error.code : ERROR_CODES.INTERNAL_ERROR;
+      const status = code === ERROR_CODES.VALIDATION_ERROR ? 400 : 503;
+
+      logSystemEvent('warn', 'Failed to revoke token', 'revocation-controller', {
+        error: error instanceof Error ? error.message : String(error),
+        status,
+      });
+
+      res.status(status).json({
+        error: status === 400 ? 'Bad Request' : 'Service Unavailable',
+        code,
+        message: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+}
+
+// Singleton instance
+export const revocationController = new RevocationController();
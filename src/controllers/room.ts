@@ -0,0 +1,94 @@
+import { Request, Response } from 'express';
+import { roomService } from '@/services/room';
+import { webSocketService } from '@/services/websocket';
+import { SFUError } from '@/types';
+import { ERROR_CODES } from '@/utils/errors';
+import { validateRequest, adminRemovalSchema, roomNoticeSchema } from '@/utils/validation';
+import { logSystemEvent } from '@/utils/logger';
+
+// const logger = createLogger({ component: 'room-controller' });
+
+// Room control for Django, mounted behind requireAdminApiKey. Only rooms hosted by this instance are visible.
+export class RoomController {
+  async list(_req: Request, res: Response): Promise<void> {
+    const rooms = roomService.getRooms().map(room => roomService.getRoomInfo(room));
+    res.json({ rooms });
+  }
+
+  async get(req: Request<{ id: string }>, res: Response): Promise<void> {
+    const room = roomService.getRoom(req.params.id);
+    if (!room) {
+      this.sendError(res, 404, ERROR_CODES.ROOM_NOT_FOUND, 'Room not found');
+      return;
+    }
+
+    res.json({
+      ...roomService.getRoomInfo(room),
+      participants: Array.from(room.participants.values()).map(participant => roomService.getParticipantInfo(participant)),
+      lobby: roomService.getLobbyEntries(room.id).map(entry => roomService.getLobbyEntryInfo(entry)),
+    });
+  }
+
+  async end(req: Request<{ id: string }>, res: Response): Promise<void> {
+    try {
+      const data = validateRequest(adminRemovalSchema, req.body ?? {});
+      const result = await webSocketService.endRoom(req.params.id, data.reason);
+
+      res.json({ success: true, ...result });
+    } catch (error) {
+      this.handleError(res, error, 'Failed to end room');
+    }
+  }
+
+  async removeParticipant(req: Request<{ id: string; pid: string }>, res: Response): Promise<void> {
+    try {
+      const data = validateRequest(adminRemovalSchema, req.body ?? {});
+      await webSocketService.removeParticipant(
+        req.params.id,
+        req.params.pid,
+        { userId: 'admin' },
+        data.reason
+      );
+
+      res.json({ success: true });
+    } catch (error) {
+      this.handleError(res, error, 'Failed to remove participant');
+    }
+  }
+
+  async broadcastNotice(req: Request<{ id: string }>, res: Response): Promise<void> {
+    try {
+      const data = validateRequest(roomNoticeSchema, req.body ?? {});
+      webSocketService.broadcastNotice(req.params.id, data.message, data.level ?? 'info');
+
+      res.status(202).json({ success: true });
+    } catch (error) {
+      this.handleError(res, error, 'Failed to broadcast notice');
+    }
+  }
+
+  private handleError(res: Response, error: unknown, message: string): void {
+    const code = error instanceof SFUError ? error.code : ERROR_CODES.INTERNAL_ERROR;
+    const status = code === ERROR_CODES.ROOM_NOT_FOUND || code === ERROR_CODES.PARTICIPANT_NOT_FOUND ? 404
+      : code === ERROR_CODES.VALIDATION_ERROR ? 400
+      : 500;
+
+    logSystemEvent(status === 500 ? 'error' : 'warn', message, 'room-controller', {
+      error: error instanceof Error ? error.message : String(error),
+      status,
+    });
+
+    this.sendError(res, status, code, error instanceof Error ? error.message : String(error));
+  }
+
+  private sendError(res: Response, status: number, code: string, message: string): void {
+    res.status(status).json({
+      error: status === 404 ? 'Not Found' : status === 400 ? 'Bad Request' : 'Internal Server Error',
+      code,
+      message,
+    });
+  }
+}
+
+// Singleton instance
+export const roomController = new RoomController();
@@ -0,0 +1,43 @@
+import { Request, Response } from 'express';
+import { authService } from '@/services/auth';
+import { ticketService } from '@/services/ticket';
+import { SFUError } from '@/types';
+import { ERROR_CODES } from '@/utils/errors';
+import { validateRequest, connectionTicketSchema } from '@/utils/validation';
+import { logSystemEvent } from '@/utils/logger';
+
+// const logger = createLogger({ component: 'ticket-controller' });
+
+export class TicketController {
+  // Exchanges the bearer JWT for a single-use WebSocket connection ticket
+  async create(req: Request, res: Response): Promise<void> {
+    try {
+      const { claims, user } = await authService.authenticateUser(req.headers.authorization);
+      const data = validateRequest(connectionTicketSchema, req.body ?? {});
+
+      const issued = await ticketService.issue(claims, user, req.headers.origin, data.roomId);
+
+      res.status(201).json({
+        ...issued,
+        ...(data.roomId && { roomId: data.roomId }),
+      });
+    } catch (error) {
+      const code = error instanceof SFUError ? error.code : ERROR_CODES.INTERNAL_ERROR;
+      const status = code.startsWith('AUTH_') ? 401 : code === ERROR_CODES.VALIDATION_ERROR ? 400 : 503;
+
+      logSystemEvent('warn', 'Failed to issue connection ticket', 'ticket-controller', {
+        error: error instanceof Error ? error.message : String(error),
+        status,
+      });
+
+      res.status(status).json({
+        error: status === 401 ? 'Unauthorized' : status === 400 ? 'Bad Request' : 'Service Unavailable',
+        code,
+        message: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+}
+
+// Singleton instance
+export const ticketController = new TicketController();
@@ -0,0 +1,187 @@
+import { Request, Response } from 'express';
+import { roomService } from '@/services/room';
+import { webSocketService } from '@/services/websocket';
+import { djangoClient } from '@/services/django';
+import { webhookService } from '@/services/webhook';
+import { redisService } from '@/services/redis';
+import { clusterService } from '@/services/cluster';
+import { config } from '@/config';
+import { SFUError } from '@/types';
+import { createRoomError, ERROR_CODES } from '@/utils/errors';
+import { validateRequest, djangoWebhookSchema, DJANGO_WEBHOOK_EVENTS } from '@/utils/validation';
+import { logSystemEvent } from '@/utils/logger';
+
+// const logger = createLogger({ component: 'webhook-controller' });
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const DEAD_LETTER_PAGE_SIZE = 100;
+
+// Events Django sends when a session changes, each one safe to deliver more than once,
+// and the admin side of the outbox for webhooks the SFU sends to Django
+export class WebhookController {
+  async receive(req: Request, res: Response): Promise<void> {
+    const event = req.body?.event;
+
+    // Newer Django versions may send events this instance does not know yet
+    if (!DJANGO_WEBHOOK_EVENTS.includes(event)) {
+      logSystemEvent('info', 'Ignoring unknown Django webhook event', 'webhook-controller', { event });
+      res.json({ event, applied: false });
+      return;
+    }
+
+    let receivedId: string | undefined;
+    try {
+      const webhook = validateRequest(djangoWebhookSchema, req.body);
+      const { roomId } = webhook.data;
+
+      if (!redisService.isHealthy()) {
+        throw new SFUError(ERROR_CODES.SERVICE_UNAVAILABLE, 'Webhook replay protection is unavailable');
+      }
+
+      // Only the instance hosting the room can apply the event. Checked before the ID is
+      // recorded, so Django's retry is still accepted once it reaches the owner.
+      const owner = await clusterService.getRemoteOwner(roomId);
+      if (owner) {
+        throw createRoomError(ERROR_CODES.ROOM_ALREADY_EXISTS, 'Room is hosted on another instance', roomId, {
+          instanceId: owner.instanceId,
+          url: owner.publicUrl,
+        });
+      }
+
+      // Timestamps are accepted up to the tolerance either side of now, so IDs are kept for twice that
+      if (!(await redisService.markWebhookReceived(webhook.id, config.django.webhookTolerance * 2))) {
+        logSystemEvent('warn', 'Ignoring replayed Django webhook', 'webhook-controller', {
+          id: webhook.id,
+          event: webhook.event,
+        });
+        res.json({ event: webhook.event, applied: false, duplicate: true });
+        return;
+      }
+      receivedId = webhook.id;
+
+      let applied = false;
+
+      // Rooms not hosted anywhere have nothing to apply
+      switch (webhook.event) {
+        case 'session.cancelled':
+          if (roomService.getRoom(roomId)) {
+            await webSocketService.endRoom(roomId, webhook.data.reason ?? 'Session cancelled');
+            applied = true;
+          }
+          break;
+        case 'session.ended':
+          if (roomService.getRoom(roomId)) {
+            await webSocketService.endRoom(roomId, 'Session ended');
+            applied = true;
+          }
+          break;
+        case 'enrollment.revoked': {
+          const { userId } = webhook.data;
+          djangoClient.invalidate('roomAccess', `${userId}:${roomId}`);
+
+          for (const participant of roomService.getParticipantsByUserId(roomId, userId)) {
+            await webSocketService.removeParticipant(roomId, participant.id, { userId: 'django' }, 'Enrollment revoked');
+            applied = true;
+          }
+          break;
+        }
+        case 'policy.updated':
+          djangoClient.invalidate('roomPolicy', roomId);
+          applied = await roomService.refreshRoomPolicy(roomId);
+          break;
+      }
+
+      logSystemEvent('info', 'Django webhook handled', 'webhook-controller', {
+        id: webhook.id,
+        event: webhook.event,
+        roomId,
+        applied,
+      });
+
+      res.json({ event: webhook.event, applied });
+    } catch (error) {
+      const code = error instanceof SFUError ? error.code : ERROR_CODES.INTERNAL_ERROR;
+      const status = code === ERROR_CODES.VALIDATION_ERROR ? 400
+        : code === ERROR_CODES.ROOM_ALREADY_EXISTS ? 421
+        : code === ERROR_CODES.SERVICE_UNAVAILABLE ? 503
+        : 500;
+
+      logSystemEvent(status === 500 ? 'error' : 'warn', 'Failed to handle Django webhook', 'webhook-controller', {
+        event,
+        error: error instanceof Error ? error.message : String(error),
+        status,
+      });
+
+      if (receivedId) {
+        await redisService.forgetWebhookReceived(receivedId).catch(() => undefined);
+      }
+
+      res.status(status).json({
+        error: status === 400 ? 'Bad Request'
+          : status === 421 ? 'Misdirected Request'
+          : status === 503 ? 'Service Unavailable'
+          : 'Internal Server Error',
+        code,
+        message: error instanceof Error ? error.message : String(error),
+        ...(status === 421 && error instanceof SFUError && { details: error.details }),
+      });
+    }
+  }
+
+  async outboxStats(_req: Request, res: Response): Promise<void> {
+    try {
+      res.json(await webhookService.getOutboxStats());
+    } catch (error) {
+      this.sendOutboxError(res, error, 'Failed to get webhook outbox stats');
+    }
+  }
+
+  async listDeadLetters(req: Request, res: Response): Promise<void> {
+    try {
+      const limit = Math.min(parseInt(String(req.query['limit'] ?? '')) || DEAD_LETTER_PAGE_SIZE, DEAD_LETTER_PAGE_SIZE);
+      res.json({ deadLetters: await webhookService.getDeadLetters(limit) });
+    } catch (error) {
+      this.sendOutboxError(res, error, 'Failed to list webhook dead letters');
+    }
+  }
+
+  // Replays one dead letter by ID, or all of them
+  async replayDeadLetters(req: Request<{ id?: string }>, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      if (id !== undefined && !UUID_PATTERN.test(id)) {
+        res.status(400).json({ error: 'Bad Request', message: 'Invalid dead letter ID' });
+        return;
+      }
+
+      const replayed = await webhookService.replayDeadLetters(id);
+      if (id !== undefined && replayed.length === 0) {
+        res.status(404).json({ error: 'Not Found', message: 'Dead letter not found' });
+        return;
+      }
+
+      res.status(202).json({ replayed });
+    } catch (error) {
+      this.sendOutboxError(res, error, 'Failed to replay webhook dead letters');
+    }
+  }
+
+  private sendOutboxError(res: Response, error: unknown, message: string): void {
+    const code = error instanceof SFUError ? error.code : ERROR_CODES.INTERNAL_ERROR;
+    const status = code === ERROR_CODES.SERVICE_UNAVAILABLE ? 503 : 500;
+
+    logSystemEvent('error', message, 'webhook-controller', {
+      error: error instanceof Error ? error.message : String(error),
+      status,
+    });
+
+    res.status(status).json({
+      error: status === 503 ? 'Service Unavailable' : 'Internal Server Error',
+      code,
+      message: error instanceof Error ? error.message : String(error),
+    });
+  }
+}
+
+// Singleton instance
+export const webhookController = new WebhookController();
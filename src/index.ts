@@ -12,9 +12,15 @@ import { logSystemEvent } from '@/utils/logger';
 import { mediasoupService } from '@/services/mediasoup';
 import { redisService } from '@/services/redis';
 import { databaseService } from '@/services/database';
+import { webhookService } from '@/services/webhook';
 import { webSocketService } from '@/services/websocket';
 import { metricsService } from '@/services/metrics';
 import { healthService } from '@/services/health';
+import { recordingService } from '@/services/recording';
+import { roomService } from '@/services/room';
+import { clusterService } from '@/services/cluster';
+import { drainService, DrainTrigger } from '@/services/drain';
+import { revocationService } from '@/services/revocation';
 
 // Import middleware
 import {
@@ -26,10 +32,17 @@ import {
   requestSizeLimit,
   securityErrorHandler,
   securityMonitoring,
+  requireAdminApiKey,
+  requireDjangoSignature,
+  captureRawBody,
 } from '@/middleware/security';
 
 // Import controllers
 import { healthController } from '@/controllers/health';
+import { ticketController } from '@/controllers/ticket';
+import { revocationController } from '@/controllers/revocation';
+import { roomController } from '@/controllers/room';
+import { webhookController } from '@/controllers/webhook';
 
 // const logger = createLogger({ component: 'app' });
 
@@ -55,7 +68,7 @@ class SFUApplication {
     this.app.use(validateRequest);
     this.app.use(securityMonitoring);
     this.app.use(compression());
-    this.app.use(express.json({ limit: '10mb' }));
+    this.app.use(express.json({ limit: '10mb', verify: captureRawBody }));
     this.app.use(express.urlencoded({ extended: true, limit: '10mb' }));
     this.app.use(requestSizeLimit(10 * 1024 * 1024)); // 10MB limit
 
@@ -89,6 +102,35 @@ class SFUApplication {
         timestamp: new Date().toISOString(),
       });
     });
+    this.app.post('/api/connection-tickets', ticketController.create.bind(ticketController));
+
+    // Room control for Django
+    this.app.get('/api/rooms', requireAdminApiKey, roomController.list.bind(roomController));
+    this.app.get('/api/rooms/:id', requireAdminApiKey, roomController.get.bind(roomController));
+    this.app.delete('/api/rooms/:id', requireAdminApiKey, roomController.end.bind(roomController));
+    this.app.delete('/api/rooms/:id/participants/:pid', requireAdminApiKey, roomController.removeParticipant.bind(roomController));
+    this.app.post('/api/rooms/:id/notices', requireAdminApiKey, roomController.broadcastNotice.bind(roomController));
+
+    // Internal routes, called by Django. A placeholder secret is public, so outside development they stay unmounted.
+    if (config.django.webhookSecretConfigured || config.server.env === 'development') {
+      this.app.post('/internal/token-revocations', requireDjangoSignature, revocationController.revoke.bind(revocationController));
+      this.app.post('/internal/webhooks', requireDjangoSignature, webhookController.receive.bind(webhookController));
+    } else {
+      logSystemEvent('error', 'DJANGO_WEBHOOK_SECRET is not set, internal routes are disabled', 'app');
+    }
+
+    // Admin routes
+    this.app.post('/admin/drain', requireAdminApiKey, (_req, res) => {
+      void this.drainAndShutdown('admin', 'admin drain');
+      res.status(202).json(drainService.getStatus());
+    });
+    this.app.get('/admin/drain', requireAdminApiKey, (_req, res) => {
+      res.json(drainService.getStatus());
+    });
+    this.app.get('/admin/webhooks', requireAdminApiKey, webhookController.outboxStats.bind(webhookController));
+    this.app.get('/admin/webhooks/dead-letters', requireAdminApiKey, webhookController.listDeadLetters.bind(webhookController));
+    this.app.post('/admin/webhooks/dead-letters/replay', requireAdminApiKey, webhookController.replayDeadLetters.bind(webhookController));
+    this.app.post('/admin/webhooks/dead-letters/:id/replay', requireAdminApiKey, webhookController.replayDeadLetters.bind(webhookController));
 
     // Catch-all for undefined routes
     this.app.use('*', (req, res) => {
@@ -125,24 +167,13 @@ class SFUApplication {
 
     this.wss.on('connection', (ws: WebSocket, req) => {
       try {
+        // The query string carries the connection ticket, keep it out of the logs
         logSystemEvent('info', 'New WebSocket connection attempt', 'websocket', {
-          url: req.url,
+          path: new URL(req.url || '/', `http://${req.headers.host}`).pathname,
           origin: req.headers.origin,
           userAgent: req.headers['user-agent'],
         });
         
-        // Extract token from query parameters for browser compatibility
-        const url = new URL(req.url || '/', `http://${req.headers.host}`);
-        const token = url.searchParams.get('token');
-        
-        if (token) {
-          // Add token to headers for authentication
-          req.headers.authorization = `Bearer ${token}`;
-          logSystemEvent('info', 'Token extracted from query parameters', 'websocket');
-        } else {
-          logSystemEvent('warn', 'No token found in WebSocket connection', 'websocket');
-        }
-        
         webSocketService.handleConnection(ws, req).catch(error => {
           logSystemEvent('error', 'WebSocket connection handler failed', 'websocket', {
             error: error instanceof Error ? error.message : String(error),
@@ -195,45 +226,57 @@ class SFUApplication {
     });
   }
 
-  private setupGracefulShutdown(): void {
-    const shutdown = async (signal: string) => {
-      if (this.isShuttingDown) {
-        logSystemEvent('warn', 'Shutdown already in progress', 'app', { signal });
-        return;
-      }
+  // Let running classes finish (up to DRAIN_GRACE_PERIOD), then shut down
+  private async drainAndShutdown(trigger: DrainTrigger, signal: string): Promise<void> {
+    if (this.isShuttingDown) {
+      logSystemEvent('warn', 'Shutdown already in progress', 'app', { signal });
+      return;
+    }
 
-      this.isShuttingDown = true;
-      logSystemEvent('info', `Received ${signal}, starting graceful shutdown`, 'app');
+    await drainService.drain(trigger, () => roomService.getRooms().every(room => room.participants.size === 0));
+    await this.shutdown(signal);
+  }
 
-      try {
-        // Stop accepting new connections
-        this.server.close(() => {
-          logSystemEvent('info', 'HTTP server closed', 'app');
-        });
+  private async shutdown(signal: string): Promise<void> {
+    if (this.isShuttingDown) {
+      logSystemEvent('warn', 'Shutdown already in progress', 'app', { signal });
+      return;
+    }
 
-        // Close WebSocket connections
-        if (this.wss) {
-          this.wss.close(() => {
-            logSystemEvent('info', 'WebSocket server closed', 'app');
-          });
-        }
+    this.isShuttingDown = true;
+    logSystemEvent('info', `Received ${signal}, starting graceful shutdown`, 'app');
 
-        // Cleanup services
-        await this.cleanupServices();
+    try {
+      // Stop accepting new connections
+      this.server.close(() => {
+        logSystemEvent('info', 'HTTP server closed', 'app');
+      });
 
-        logSystemEvent('info', 'Graceful shutdown completed', 'app');
-        process.exit(0);
-      } catch (error) {
-        logSystemEvent('error', 'Error during graceful shutdown', 'app', {
-          error: error instanceof Error ? error.message : String(error),
+      // Close WebSocket connections
+      if (this.wss) {
+        this.wss.close(() => {
+          logSystemEvent('info', 'WebSocket server closed', 'app');
         });
-        process.exit(1);
       }
-    };
 
-    process.on('SIGTERM', () => shutdown('SIGTERM'));
-    process.on('SIGINT', () => shutdown('SIGINT'));
-    process.on('SIGUSR2', () => shutdown('SIGUSR2')); // For nodemon
+      // Cleanup services
+      await this.cleanupServices();
+
+      logSystemEvent('info', 'Graceful shutdown completed', 'app');
+      process.exit(0);
+    } catch (error) {
+      logSystemEvent('error', 'Error during graceful shutdown', 'app', {
+        error: error instanceof Error ? error.message : String(error),
+      });
+      process.exit(1);
+    }
+  }
+
+  private setupGracefulShutdown(): void {
+    // Kubernetes sends SIGTERM on rollouts: drain first
+    process.on('SIGTERM', () => this.drainAndShutdown('signal', 'SIGTERM'));
+    process.on('SIGINT', () => this.shutdown('SIGINT'));
+    process.on('SIGUSR2', () => this.shutdown('SIGUSR2')); // For nodemon
 
     // Handle uncaught exceptions
     process.on('uncaughtException', (error) => {
@@ -259,12 +302,23 @@ class SFUApplication {
       // Stop metrics collection
       metricsService.stop();
 
+      roomService.stopReconciliation();
+      roomService.stopPolicyRefresh();
+      await clusterService.stop();
+      await revocationService.stop();
+
       // Cleanup WebSocket service
       webSocketService.cleanup();
 
+      // Finalize in-progress recordings while their routers are still alive
+      await recordingService.stopAll();
+
       // Close mediasoup service
       await mediasoupService.close();
 
+      // Webhooks not yet delivered stay in the outbox
+      await webhookService.stop();
+
       // Close Redis connections
       await redisService.disconnect();
 
@@ -327,6 +381,15 @@ class SFUApplication {
       // Start metrics collection
       metricsService.start();
 
+      // Keep the persisted room state in line with the live one
+      roomService.startReconciliation();
+      // Pick up room policy changes made in Django while classes run
+      roomService.startPolicyRefresh();
+      clusterService.start();
+      await revocationService.start();
+      // Deliver webhooks queued before a restart and from now on
+      webhookService.start();
+
       logSystemEvent('info', 'SFU application started successfully', 'app', {
         port: config.server.port,
         host: config.server.host,
@@ -1,8 +1,10 @@
 import { Request, Response, NextFunction } from 'express';
 import rateLimit from 'express-rate-limit';
+import { timingSafeEqual } from 'crypto';
 import { config } from '@/config';
 import { logSystemEvent } from '@/utils/logger';
 import { metricsService } from '@/services/metrics';
+import { webhookService } from '@/services/webhook';
 
 // const logger = createLogger({ component: 'security' });
 
@@ -189,6 +191,85 @@ export const ipWhitelist = (allowedIPs: string[]) => {
   };
 };
 
+// Admin API key check for operational endpoints
+export const requireAdminApiKey = (req: Request, res: Response, next: NextFunction) => {
+  const expected = config.security.adminApiKey;
+  if (!expected) {
+    return res.status(503).json({
+      error: 'Service Unavailable',
+      message: 'Admin API is not configured',
+    });
+  }
+
+  const provided = Buffer.from(req.get('X-Admin-Api-Key') || '');
+  const expectedBuffer = Buffer.from(expected);
+
+  if (provided.length !== expectedBuffer.length || !timingSafeEqual(provided, expectedBuffer)) {
+    logSystemEvent('warn', 'Invalid admin API key', 'security', {
+      ip: req.ip,
+      path: req.path,
+    });
+
+    metricsService.incrementError('security', 'admin_auth_failed');
+
+    return res.status(401).json({
+      error: 'Unauthorized',
+      message: 'Invalid admin API key',
+    });
+  }
+
+  return next();
+};
+
+// HMAC check for server-to-server calls from Django, signed with DJANGO_WEBHOOK_SECRET.
+// The signature covers `<X-Django-Timestamp>.<raw body>`, so a captured request stops
+// working once its timestamp is older than DJANGO_WEBHOOK_TOLERANCE seconds.
+// Needs the raw body kept by the JSON parser, see captureRawBody.
+export const requireDjangoSignature = (req: Request, res: Response, next: NextFunction) => {
+  const rawBody: Buffer | undefined = (req as any).rawBody;
+  const signature = req.get('X-Django-Signature');
+  const timestamp = req.get('X-Django-Timestamp') ?? '';
+  const age = Math.abs(Math.floor(Date.now() / 1000) - Number(timestamp));
+
+  if (!/^\d+$/.test(timestamp) || age > config.django.webhookTolerance) {
+    logSystemEvent('warn', 'Stale or missing Django request timestamp', 'security', {
+      ip: req.ip,
+      path: req.path,
+      timestamp,
+    });
+
+    metricsService.incrementError('security', 'django_timestamp_invalid');
+
+    return res.status(401).json({
+      error: 'Unauthorized',
+      message: 'Stale or missing request timestamp',
+    });
+  }
+
+  if (!rawBody || !signature || !webhookService.verifySignature(`${timestamp}.${rawBody.toString('utf8')}`, signature)) {
+    logSystemEvent('warn', 'Invalid Django request signature', 'security', {
+      ip: req.ip,
+      path: req.path,
+    });
+
+    metricsService.incrementError('security', 'django_signature_failed');
+
+    return res.status(401).json({
+      error: 'Unauthorized',
+      message: 'Invalid request signature',
+    });
+  }
+
+  return next();
+};
+
+// JSON parser hook keeping the exact bytes of internal requests for signature checks
+export const captureRawBody = (req: any, _res: any, buf: Buffer): void => {
+  if (req.url?.startsWith('/internal/')) {
+    req.rawBody = buf;
+  }
+};
+
 // Request size limiter
 export const requestSizeLimit = (maxSize: number) => {
   return (req: Request, res: Response, next: NextFunction) => {
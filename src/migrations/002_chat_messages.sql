@@ -0,0 +1,18 @@
+-- Chat messages sent over the signaling WebSocket
+-- Room IDs are Django session IDs (not UUIDs) and rooms may never be persisted, so no foreign key
+CREATE TABLE IF NOT EXISTS chat_messages (
+    id UUID PRIMARY KEY,
+    room_id VARCHAR(255) NOT NULL,
+    sender_participant_id VARCHAR(255) NOT NULL,
+    sender_user_id VARCHAR(255) NOT NULL,
+    sender_display_name VARCHAR(50) NOT NULL,
+    recipient_participant_id VARCHAR(255),
+    recipient_user_id VARCHAR(255),
+    content TEXT NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    deleted_at TIMESTAMP WITH TIME ZONE,
+    deleted_by VARCHAR(255)
+);
+
+CREATE INDEX IF NOT EXISTS idx_chat_messages_room_created_at ON chat_messages(room_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_chat_messages_recipient_user_id ON chat_messages(recipient_user_id);
@@ -0,0 +1,41 @@
+-- Persist live room state
+-- Room IDs come from Django sessions and are not always UUIDs, and auto-created
+-- room names embed that ID
+
+ALTER TABLE participants DROP CONSTRAINT IF EXISTS participants_room_id_fkey;
+ALTER TABLE room_events DROP CONSTRAINT IF EXISTS room_events_room_id_fkey;
+
+ALTER TABLE rooms ALTER COLUMN id TYPE VARCHAR(255);
+ALTER TABLE rooms ALTER COLUMN name TYPE VARCHAR(255);
+ALTER TABLE participants ALTER COLUMN room_id TYPE VARCHAR(255);
+ALTER TABLE room_events ALTER COLUMN room_id TYPE VARCHAR(255);
+
+ALTER TABLE participants
+    ADD CONSTRAINT participants_room_id_fkey FOREIGN KEY (room_id) REFERENCES rooms(id) ON DELETE CASCADE;
+ALTER TABLE room_events
+    ADD CONSTRAINT room_events_room_id_fkey FOREIGN KEY (room_id) REFERENCES rooms(id) ON DELETE CASCADE;
+
+-- get_room_stats took a UUID room ID
+DROP FUNCTION IF EXISTS get_room_stats(UUID);
+
+CREATE OR REPLACE FUNCTION get_room_stats(room_id_param VARCHAR(255))
+RETURNS TABLE (
+    participant_count BIGINT,
+    audio_enabled_count BIGINT,
+    video_enabled_count BIGINT,
+    screen_sharing_count BIGINT,
+    event_count BIGINT
+) AS $$
+BEGIN
+    RETURN QUERY
+    SELECT 
+        COUNT(DISTINCT p.id) as participant_count,
+        COUNT(DISTINCT CASE WHEN p.is_audio_enabled THEN p.id END) as audio_enabled_count,
+        COUNT(DISTINCT CASE WHEN p.is_video_enabled THEN p.id END) as video_enabled_count,
+        COUNT(DISTINCT CASE WHEN p.is_screen_sharing THEN p.id END) as screen_sharing_count,
+        COUNT(DISTINCT re.id) as event_count
+    FROM participants p
+    LEFT JOIN room_events re ON p.room_id = re.room_id
+    WHERE p.room_id = room_id_param;
+END;
+$$ LANGUAGE plpgsql;
@@ -1,10 +1,11 @@
 import jwt from 'jsonwebtoken';
 import jwksClient from 'jwks-client';
-import axios from 'axios';
 import { config } from '@/config';
-import { JWTClaims, User } from '@/types';
+import { JWTClaims, User, UserEntitlements, RoomPolicy, SFUError } from '@/types';
 import { logSystemEvent } from '@/utils/logger';
 import { createAuthError, ERROR_CODES } from '@/utils/errors';
+import { revocationService } from './revocation';
+import { djangoClient, DjangoCall } from './django';
 
 // const logger = createLogger({ component: 'auth' });
 
@@ -82,6 +83,11 @@ export class AuthService {
         jti: verified.jti,
       };
 
+      // Django revokes tokens on logout and when accounts are disabled
+      if (await revocationService.isRevoked(claims.jti)) {
+        throw createAuthError(ERROR_CODES.AUTH_TOKEN_REVOKED, 'Token has been revoked');
+      }
+
       logSystemEvent('info', 'Token verified successfully', 'auth', {
         userId: claims.user_id,
         email: claims.email,
@@ -90,6 +96,11 @@ export class AuthService {
 
       return claims;
     } catch (error) {
+      // Our own checks above already say what is wrong
+      if (error instanceof SFUError) {
+        throw error;
+      }
+
       if (error instanceof Error && error.name === 'TokenExpiredError') {
         throw createAuthError(ERROR_CODES.AUTH_TOKEN_EXPIRED, 'Token has expired');
       }
@@ -127,50 +138,39 @@ export class AuthService {
   }
 
   async getUserFromDjango(userId: string): Promise<User> {
-    try {
-      const response = await axios.get(`${config.django.baseUrl}/api/accounts/users/${userId}/`, {
-        timeout: 5000,
-        headers: {
-          'Content-Type': 'application/json',
-        },
-      });
-
-      if (response.status !== 200) {
-        throw createAuthError(ERROR_CODES.AUTH_USER_NOT_FOUND, 'User not found in Django');
-      }
-
-      const userData = response.data;
-      
-      // Transform Django user data to our User type
-      const user: User = {
-        id: userData.id.toString(),
-        email: userData.email,
-        fullName: userData.full_name,
-        role: userData.role,
-        isActive: userData.is_active,
-        createdAt: userData.created_at,
-        updatedAt: userData.updated_at,
-      };
-
-      logSystemEvent('info', 'User fetched from Django', 'auth', {
-        userId: user.id,
-        email: user.email,
-        role: user.role,
-      });
+    // Without a user there is nothing to fall back to, so this call always fails closed
+    return await djangoClient.request({
+      endpoint: 'user',
+      key: userId,
+      method: 'get',
+      path: `/api/accounts/users/${userId}/`,
+      parse: (response) => {
+        if (response.status !== 200) {
+          throw createAuthError(ERROR_CODES.AUTH_USER_NOT_FOUND, 'User not found in Django');
+        }
 
-      return user;
-    } catch (error) {
-      logSystemEvent('error', 'Failed to fetch user from Django', 'auth', {
-        error: error instanceof Error ? error.message : String(error),
-        userId,
-      });
+        const userData = response.data;
+
+        // Transform Django user data to our User type
+        const user: User = {
+          id: userData.id.toString(),
+          email: userData.email,
+          fullName: userData.full_name,
+          role: userData.role,
+          isActive: userData.is_active,
+          createdAt: userData.created_at,
+          updatedAt: userData.updated_at,
+        };
 
-      if (axios.isAxiosError(error) && error.response?.status === 404) {
-        throw createAuthError(ERROR_CODES.AUTH_USER_NOT_FOUND, 'User not found in Django');
-      }
+        logSystemEvent('info', 'User fetched from Django', 'auth', {
+          userId: user.id,
+          email: user.email,
+          role: user.role,
+        });
 
-      throw createAuthError(ERROR_CODES.DJANGO_CONNECTION_ERROR, 'Failed to fetch user from Django');
-    }
+        return user;
+      },
+    });
   }
 
   async validateRoomAccess(userId: string, roomId: string): Promise<boolean> {
@@ -184,140 +184,113 @@ export class AuthService {
     }
 
     try {
-      // Log the request being sent
-      logSystemEvent('info', 'Calling Django room access endpoint', 'auth', {
-        userId,
-        roomId,
-        roomIdType: typeof roomId,
-        endpoint: `${config.django.baseUrl}/api/sfu/room-access/`,
-      });
-      
-      // Call Django to check room access permissions
-      const response = await axios.post(
-        `${config.django.baseUrl}/api/sfu/room-access/`,
-        {
-          userId,
-          roomId,
-        },
-        {
-          timeout: 5000,
-          headers: {
-            'Content-Type': 'application/json',
-          },
-        }
-      );
-
-      logSystemEvent('info', 'Django room access response received', 'auth', {
-        status: response.status,
-        allowed: response.data?.allowed,
-        userId,
-        roomId,
-      });
+      // Allowed while Django is unavailable only if roomAccess is configured to fail open
+      return await djangoClient.request({
+        endpoint: 'roomAccess',
+        key: `${userId}:${roomId}`,
+        method: 'post',
+        path: '/api/sfu/room-access/',
+        body: { userId, roomId },
+        parse: (response) => {
+          logSystemEvent('info', 'Django room access response received', 'auth', {
+            status: response.status,
+            allowed: response.data?.allowed,
+            userId,
+            roomId,
+          });
 
-      return response.status === 200 && response.data.allowed === true;
+          return response.status === 200 && response.data?.allowed === true;
+        },
+      }, () => true);
     } catch (error) {
-      // Enhanced error logging
-      const errorMessage = error instanceof Error ? error.message : String(error);
-      const axiosError = error as any;
-      
-      logSystemEvent('warn', 'Failed to validate room access', 'auth', {
-        error: errorMessage,
+      logSystemEvent('warn', 'Failed to validate room access, denying', 'auth', {
+        error: error instanceof Error ? error.message : String(error),
         userId,
         roomId,
-        roomIdType: typeof roomId,
-        status: axiosError?.response?.status,
-        statusText: axiosError?.response?.statusText,
-        responseData: axiosError?.response?.data,
-        endpoint: `${config.django.baseUrl}/api/sfu/room-access/`,
       });
 
-      // Default to allowing access if Django is unavailable
-      return true;
+      return false;
     }
   }
 
-  async getRoomPolicy(roomId: string): Promise<any> {
-    try {
-      const response = await axios.get(
-        `${config.django.baseUrl}/api/sfu/room-policy/${roomId}/`,
-        {
-          timeout: 5000,
-          headers: {
-            'Content-Type': 'application/json',
-          },
-        }
-      );
-
-      if (response.status === 200) {
-        return response.data;
-      }
+  async getRoomPolicy(roomId: string): Promise<RoomPolicy> {
+    // Default policy while Django is unavailable, if roomPolicy is configured to fail open
+    return await djangoClient.request(this.getRoomPolicyCall(roomId), () => this.getDefaultRoomPolicy());
+  }
 
-      // Return default policy if not found
-      return {
-        maxParticipants: config.room.maxParticipants,
-        maxBitrate: 1000000,
-        allowScreenSharing: true,
-        allowRecording: false,
-        requireModeratorApproval: false,
-      };
+  // null when Django could not be reached, so a room can keep the policy it has
+  async fetchRoomPolicy(roomId: string): Promise<RoomPolicy | null> {
+    try {
+      return await djangoClient.request(this.getRoomPolicyCall(roomId));
     } catch (error) {
       logSystemEvent('warn', 'Failed to get room policy', 'auth', {
         error: error instanceof Error ? error.message : String(error),
         roomId,
       });
 
-      // Return default policy if Django is unavailable
-      return {
-        maxParticipants: config.room.maxParticipants,
-        maxBitrate: 1000000,
-        allowScreenSharing: true,
-        allowRecording: false,
-        requireModeratorApproval: false,
-      };
+      return null;
     }
   }
 
-  async checkUserEntitlements(userId: string): Promise<any> {
-    try {
-      const response = await axios.get(
-        `${config.django.baseUrl}/api/sfu/user-entitlements/${userId}/`,
-        {
-          timeout: 5000,
-          headers: {
-            'Content-Type': 'application/json',
-          },
+  private getRoomPolicyCall(roomId: string): DjangoCall<RoomPolicy> {
+    return {
+      endpoint: 'roomPolicy',
+      key: roomId,
+      method: 'get',
+      path: `/api/sfu/room-policy/${roomId}/`,
+      parse: (response) => {
+        if (response.status === 200) {
+          // Fields Django leaves out keep their defaults
+          return { ...this.getDefaultRoomPolicy(), ...response.data };
         }
-      );
 
-      if (response.status === 200) {
-        return response.data;
-      }
+        // Return default policy if not found
+        return this.getDefaultRoomPolicy();
+      },
+    };
+  }
 
-      // Return default entitlements if not found
-      return {
-        canCreateRooms: true,
-        canJoinRooms: true,
-        canScreenShare: true,
-        canRecord: false,
-        maxRoomsPerUser: 10,
-        maxParticipantsPerRoom: config.room.maxParticipants,
-      };
-    } catch (error) {
-      logSystemEvent('warn', 'Failed to get user entitlements', 'auth', {
-        error: error instanceof Error ? error.message : String(error),
-        userId,
-      });
+  private getDefaultRoomPolicy(): RoomPolicy {
+    return {
+      maxParticipants: config.room.maxParticipants,
+      maxBitrate: 1000000,
+      maxDevicesPerUser: config.room.maxDevicesPerUser,
+      allowScreenSharing: true,
+      allowRecording: false,
+      requireModeratorApproval: false,
+      allowedKinds: ['audio', 'video'],
+      maxVideoPublishers: 0,
+    };
+  }
 
-      // Return default entitlements if Django is unavailable
-      return {
-        canCreateRooms: true,
-        canJoinRooms: true,
-        canScreenShare: true,
-        canRecord: false,
-        maxRoomsPerUser: 10,
-        maxParticipantsPerRoom: config.room.maxParticipants,
-      };
-    }
+  async checkUserEntitlements(userId: string): Promise<UserEntitlements> {
+    // Default entitlements while Django is unavailable, if entitlements is configured to fail open
+    return await djangoClient.request({
+      endpoint: 'entitlements',
+      key: userId,
+      method: 'get',
+      path: `/api/sfu/user-entitlements/${userId}/`,
+      parse: (response) => {
+        if (response.status === 200) {
+          // Fields Django leaves out keep their defaults
+          return { ...this.getDefaultEntitlements(), ...response.data };
+        }
+
+        // Return default entitlements if not found
+        return this.getDefaultEntitlements();
+      },
+    }, () => this.getDefaultEntitlements());
+  }
+
+  private getDefaultEntitlements(): UserEntitlements {
+    return {
+      canCreateRooms: true,
+      canJoinRooms: true,
+      canScreenShare: true,
+      canRecord: false,
+      maxRoomsPerUser: 10,
+      maxParticipantsPerRoom: config.room.maxParticipants,
+    };
   }
 
   extractTokenFromHeader(authHeader: string | undefined): string {
@@ -0,0 +1,148 @@
+import { v4 as uuidv4 } from 'uuid';
+import { ChatMessage, ChatMessageRecord, Participant } from '@/types';
+import { databaseService } from './database';
+import { logRoomEvent } from '@/utils/logger';
+import { sanitizeString } from '@/utils/validation';
+
+// const logger = createLogger({ component: 'chat' });
+
+const MAX_MESSAGE_LENGTH = 2000;
+// Recent messages kept per room so history still works without a database
+const HISTORY_BUFFER_SIZE = 200;
+
+export interface ChatHistoryPage {
+  messages: ChatMessage[];
+  hasMore: boolean;
+}
+
+export class ChatService {
+  private history = new Map<string, ChatMessage[]>();
+
+  async sendMessage(roomId: string, sender: Participant, content: string, recipient?: Participant): Promise<ChatMessage> {
+    const message: ChatMessage = {
+      id: uuidv4(),
+      roomId,
+      senderId: sender.id,
+      senderUserId: sender.userId,
+      senderDisplayName: sender.displayName,
+      ...(recipient && { recipientId: recipient.id, recipientUserId: recipient.userId }),
+      content: sanitizeString(content, MAX_MESSAGE_LENGTH),
+      createdAt: new Date().toISOString(),
+    };
+
+    let buffer = this.history.get(roomId);
+    if (!buffer) {
+      buffer = [];
+      this.history.set(roomId, buffer);
+    }
+    buffer.push(message);
+    if (buffer.length > HISTORY_BUFFER_SIZE) {
+      buffer.shift();
+    }
+
+    // Persist message (optional - delivery does not depend on the database)
+    try {
+      await databaseService.createChatMessage(this.toRecord(message));
+    } catch (error) {
+      logRoomEvent('warn', 'Failed to persist chat message', roomId, sender.id, {
+        messageId: message.id,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+
+    return message;
+  }
+
+  async getHistory(roomId: string, userId: string, limit: number, before?: Date): Promise<ChatHistoryPage> {
+    // Fetch one extra row to know whether another page exists
+    let messages: ChatMessage[];
+    if (databaseService.isHealthy()) {
+      const records = await databaseService.getChatMessages(roomId, userId, limit + 1, before);
+      messages = records.map(record => this.fromRecord(record));
+    } else {
+      messages = (this.history.get(roomId) ?? [])
+        .filter(message => this.isVisibleTo(message, userId))
+        .filter(message => !before || new Date(message.createdAt) < before)
+        .reverse()
+        .slice(0, limit + 1);
+    }
+
+    const hasMore = messages.length > limit;
+
+    return {
+      // Pages are returned oldest first so clients can append them directly
+      messages: messages.slice(0, limit).reverse(),
+      hasMore,
+    };
+  }
+
+  async deleteMessage(roomId: string, messageId: string, deletedBy: string): Promise<ChatMessage | undefined> {
+    let deleted: ChatMessage | undefined;
+
+    const buffer = this.history.get(roomId);
+    const index = buffer?.findIndex(message => message.id === messageId) ?? -1;
+    if (buffer && index !== -1) {
+      deleted = buffer.splice(index, 1)[0];
+    }
+
+    try {
+      const record = await databaseService.deleteChatMessage(roomId, messageId, deletedBy);
+      if (record && !deleted) {
+        deleted = this.fromRecord(record);
+      }
+    } catch (error) {
+      logRoomEvent('warn', 'Failed to delete chat message from database', roomId, undefined, {
+        messageId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+
+    if (deleted) {
+      logRoomEvent('info', 'Chat message deleted', roomId, undefined, {
+        messageId,
+        deletedBy,
+      });
+    }
+
+    return deleted;
+  }
+
+  clearRoom(roomId: string): void {
+    this.history.delete(roomId);
+  }
+
+  private isVisibleTo(message: ChatMessage, userId: string): boolean {
+    return !message.recipientUserId || message.senderUserId === userId || message.recipientUserId === userId;
+  }
+
+  private toRecord(message: ChatMessage): ChatMessageRecord {
+    return {
+      id: message.id,
+      room_id: message.roomId,
+      sender_participant_id: message.senderId,
+      sender_user_id: message.senderUserId,
+      sender_display_name: message.senderDisplayName,
+      ...(message.recipientId && { recipient_participant_id: message.recipientId }),
+      ...(message.recipientUserId && { recipient_user_id: message.recipientUserId }),
+      content: message.content,
+      created_at: new Date(message.createdAt),
+    };
+  }
+
+  private fromRecord(record: ChatMessageRecord): ChatMessage {
+    return {
+      id: record.id,
+      roomId: record.room_id,
+      senderId: record.sender_participant_id,
+      senderUserId: record.sender_user_id,
+      senderDisplayName: record.sender_display_name,
+      ...(record.recipient_participant_id && { recipientId: record.recipient_participant_id }),
+      ...(record.recipient_user_id && { recipientUserId: record.recipient_user_id }),
+      content: record.content,
+      createdAt: new Date(record.created_at).toISOString(),
+    };
+  }
+}
+
+// Singleton instance
+export const chatService = new ChatService();
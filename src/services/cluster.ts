@@ -0,0 +1,444 @@
+import { config } from '@/config';
+import { Room, Participant, WebSocketMessage } from '@/types';
+import { redisService } from './redis';
+import { logRoomEvent } from '@/utils/logger';
+import { createRoomError, ERROR_CODES } from '@/utils/errors';
+
+// const logger = createLogger({ component: 'cluster' });
+
+// Mirrored state expires unless the hosting instance keeps refreshing it,
+// so rooms of a crashed instance disappear on their own
+const ROOM_STATE_TTL_SECONDS = 120;
+const ROOM_STATE_REFRESH_INTERVAL = 30000;
+// Claiming a room is a handful of Redis round trips
+const ROOM_LOCK_TTL_MS = 5000;
+const ROOM_LOCK_RETRY_DELAY = 100;
+const ROOM_LOCK_MAX_ATTEMPTS = 30;
+
+export type ClusterRoomEventHandler = (roomId: string, message: WebSocketMessage) => void;
+// owner is null when the instance that took the room over is gone as well
+export type ClusterOwnershipLostHandler = (roomId: string, owner: ClusterInstance | null) => void;
+
+export interface ClusterRoomState {
+  id: string;
+  name: string;
+  instanceId: string;
+  maxParticipants: number;
+  participantCount: number;
+  isActive: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface ClusterParticipantState {
+  id: string;
+  userId: string;
+  deviceId?: string;
+  displayName: string;
+  instanceId: string;
+  isAudioEnabled: boolean;
+  isVideoEnabled: boolean;
+  isScreenSharing: boolean;
+  isHidden: boolean;
+  joinedAt: string;
+}
+
+export interface ClusterInstance {
+  instanceId: string;
+  publicUrl: string;
+  rooms: number;
+  startedAt: string;
+  lastSeen: number;
+}
+
+interface RoomEventEnvelope {
+  instanceId: string;
+  message: WebSocketMessage;
+}
+
+export class ClusterService {
+  // Rooms hosted by this instance, mirrored to Redis while CLUSTER_MODE is on
+  private rooms = new Map<string, Room>();
+  private handlers: ClusterRoomEventHandler[] = [];
+  private ownershipLostHandlers: ClusterOwnershipLostHandler[] = [];
+  private refreshInterval?: NodeJS.Timeout;
+  private heartbeatInterval?: NodeJS.Timeout;
+  private startedAt = new Date();
+
+  isEnabled(): boolean {
+    return config.cluster.mode && redisService.isHealthy();
+  }
+
+  // Register a callback for room events published by other instances
+  onRoomEvent(handler: ClusterRoomEventHandler): void {
+    this.handlers.push(handler);
+  }
+
+  // Register a callback for rooms another instance took over while this one hosted them
+  onOwnershipLost(handler: ClusterOwnershipLostHandler): void {
+    this.ownershipLostHandlers.push(handler);
+  }
+
+  start(): void {
+    if (!config.cluster.mode || this.refreshInterval) {
+      return;
+    }
+
+    this.startedAt = new Date();
+    void this.sendHeartbeat();
+    this.heartbeatInterval = setInterval(() => {
+      void this.sendHeartbeat();
+    }, config.cluster.heartbeatInterval);
+    this.heartbeatInterval.unref();
+
+    this.refreshInterval = setInterval(() => {
+      void this.refreshRooms();
+    }, ROOM_STATE_REFRESH_INTERVAL);
+    this.refreshInterval.unref();
+  }
+
+  async stop(): Promise<void> {
+    if (this.heartbeatInterval) {
+      clearInterval(this.heartbeatInterval);
+      delete this.heartbeatInterval;
+    }
+    if (this.refreshInterval) {
+      clearInterval(this.refreshInterval);
+      delete this.refreshInterval;
+    }
+
+    // Hand our rooms back right away instead of waiting for the keys to expire
+    for (const room of Array.from(this.rooms.values())) {
+      await this.unregisterRoom(room);
+    }
+
+    await this.run('instance removal', '', () => redisService.deregisterInstance(config.cluster.instanceId));
+  }
+
+  async getInstances(): Promise<ClusterInstance[]> {
+    return this.isEnabled() ? await redisService.getInstances() : [];
+  }
+
+  // Returns the live instance that owns the room when it is not this one. Otherwise
+  // claims the room for this instance, taking over from owners whose heartbeat expired.
+  async resolveRoomOwner(roomId: string): Promise<ClusterInstance | undefined> {
+    if (!this.isEnabled() || this.rooms.has(roomId)) {
+      return undefined;
+    }
+
+    let lockToken: string | null = null;
+    try {
+      lockToken = await this.acquireRoomLock(roomId);
+      if (!lockToken) {
+        // Fail open: Redis trouble must not keep people out of their class
+        logRoomEvent('warn', 'Timed out waiting for room ownership lock', roomId);
+        return undefined;
+      }
+
+      const ownerId = await redisService.getRoomOwner(roomId);
+      if (ownerId && ownerId !== config.cluster.instanceId) {
+        const owner: ClusterInstance | null = await redisService.getInstance(ownerId);
+        if (owner) {
+          return owner;
+        }
+
+        logRoomEvent('warn', 'Taking over room from unresponsive instance', roomId, undefined, {
+          instanceId: ownerId,
+        });
+      }
+
+      await redisService.setRoomOwner(roomId, config.cluster.instanceId, ROOM_STATE_TTL_SECONDS);
+      return undefined;
+    } catch (error) {
+      logRoomEvent('warn', 'Failed to resolve room owner', roomId, undefined, {
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return undefined;
+    } finally {
+      if (lockToken) {
+        await this.run('room lock release', roomId, () => redisService.releaseLock(`room:${roomId}`, lockToken!));
+      }
+    }
+  }
+
+  // The live instance hosting the room, when that is not this one
+  async getRemoteOwner(roomId: string): Promise<ClusterInstance | null> {
+    if (!this.isEnabled() || this.rooms.has(roomId)) {
+      return null;
+    }
+
+    const ownerId = await redisService.getRoomOwner(roomId);
+    if (!ownerId || ownerId === config.cluster.instanceId) {
+      return null;
+    }
+
+    return await redisService.getInstance(ownerId);
+  }
+
+  // Refuse to host a room another instance owns
+  async assertRoomAvailable(roomId: string): Promise<void> {
+    if (!this.isEnabled()) {
+      return;
+    }
+
+    let ownerId: string | null;
+    try {
+      ownerId = await redisService.getRoomOwner(roomId);
+    } catch (error) {
+      // Fail open: Redis trouble must not keep people out of their class
+      logRoomEvent('warn', 'Failed to check room owner', roomId, undefined, {
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return;
+    }
+
+    if (ownerId && ownerId !== config.cluster.instanceId) {
+      throw createRoomError(ERROR_CODES.ROOM_ALREADY_EXISTS, 'Room is hosted on another instance', roomId, {
+        instanceId: ownerId,
+      });
+    }
+  }
+
+  private async acquireRoomLock(roomId: string): Promise<string | null> {
+    for (let attempt = 0; attempt < ROOM_LOCK_MAX_ATTEMPTS; attempt++) {
+      const token = await redisService.acquireLock(`room:${roomId}`, ROOM_LOCK_TTL_MS);
+      if (token) {
+        return token;
+      }
+      await new Promise(resolve => setTimeout(resolve, ROOM_LOCK_RETRY_DELAY));
+    }
+    return null;
+  }
+
+  private async sendHeartbeat(): Promise<void> {
+    // Three missed heartbeats and the instance is considered gone
+    const ttlSeconds = Math.ceil((config.cluster.heartbeatInterval * 3) / 1000);
+
+    await this.run('instance heartbeat', '', () =>
+      redisService.registerInstance(config.cluster.instanceId, {
+        instanceId: config.cluster.instanceId,
+        publicUrl: config.cluster.publicUrl,
+        rooms: this.rooms.size,
+        startedAt: this.startedAt.toISOString(),
+      }, ttlSeconds)
+    );
+  }
+
+  async registerRoom(room: Room): Promise<void> {
+    if (!config.cluster.mode) {
+      return;
+    }
+
+    this.rooms.set(room.id, room);
+
+    await this.run('room registration', room.id, async () => {
+      if (!await this.keepOwnership(room)) {
+        return;
+      }
+      await redisService.setRoomState(room.id, this.toRoomState(room), ROOM_STATE_TTL_SECONDS);
+      await redisService.subscribe(this.getChannel(room.id), (payload) => this.handleRoomEvent(room.id, payload));
+    });
+  }
+
+  async unregisterRoom(room: Room): Promise<void> {
+    if (!this.rooms.delete(room.id)) {
+      return;
+    }
+
+    await this.run('room removal', room.id, async () => {
+      await redisService.unsubscribe(this.getChannel(room.id));
+      await redisService.deleteRoomState(room.id);
+      await redisService.releaseRoomOwner(room.id, config.cluster.instanceId);
+    });
+  }
+
+  async addParticipant(room: Room, participant: Participant): Promise<void> {
+    if (!this.rooms.has(room.id)) {
+      return;
+    }
+
+    await this.run('participant', room.id, async () => {
+      await redisService.addParticipantToRoom(room.id, participant.id);
+      await redisService.setParticipantState(room.id, participant.id, this.toParticipantState(participant));
+      await redisService.setRoomState(room.id, this.toRoomState(room), ROOM_STATE_TTL_SECONDS);
+      await redisService.refreshRoomState(room.id, ROOM_STATE_TTL_SECONDS);
+    });
+  }
+
+  async updateParticipant(participant: Participant): Promise<void> {
+    if (!this.rooms.has(participant.roomId)) {
+      return;
+    }
+
+    await this.run('participant state', participant.roomId, () =>
+      redisService.setParticipantState(participant.roomId, participant.id, this.toParticipantState(participant))
+    );
+  }
+
+  async removeParticipant(room: Room, participantId: string): Promise<void> {
+    if (!this.rooms.has(room.id)) {
+      return;
+    }
+
+    await this.run('participant removal', room.id, async () => {
+      await redisService.removeParticipantFromRoom(room.id, participantId);
+      await redisService.deleteParticipantState(room.id, participantId);
+      await redisService.setRoomState(room.id, this.toRoomState(room), ROOM_STATE_TTL_SECONDS);
+    });
+  }
+
+  // Cluster-wide view of a room, whichever instance hosts it
+  async getRoomState(roomId: string): Promise<ClusterRoomState | null> {
+    return this.isEnabled() ? await redisService.getRoomState(roomId) : null;
+  }
+
+  async getRoomParticipants(roomId: string): Promise<ClusterParticipantState[]> {
+    return this.isEnabled() ? await redisService.getParticipantStates(roomId) : [];
+  }
+
+  async publishRoomEvent(roomId: string, message: WebSocketMessage): Promise<void> {
+    if (!this.isEnabled()) {
+      return;
+    }
+
+    const envelope: RoomEventEnvelope = {
+      instanceId: config.cluster.instanceId,
+      message,
+    };
+
+    await this.run('room event', roomId, async () => {
+      await redisService.publish(this.getChannel(roomId), JSON.stringify(envelope));
+    });
+  }
+
+  private handleRoomEvent(roomId: string, payload: string): void {
+    let envelope: RoomEventEnvelope;
+    try {
+      envelope = JSON.parse(payload);
+    } catch {
+      logRoomEvent('warn', 'Dropped malformed cluster room event', roomId);
+      return;
+    }
+
+    // Our own events were already delivered locally
+    if (envelope.instanceId === config.cluster.instanceId) {
+      return;
+    }
+
+    for (const handler of this.handlers) {
+      try {
+        handler(roomId, envelope.message);
+      } catch (error) {
+        logRoomEvent('error', 'Cluster room event handler failed', roomId, undefined, {
+          type: envelope.message.type,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+  }
+
+  private async refreshRooms(): Promise<void> {
+    if (!this.isEnabled()) {
+      return;
+    }
+
+    for (const room of Array.from(this.rooms.values())) {
+      await this.run('room refresh', room.id, async () => {
+        if (!await this.keepOwnership(room)) {
+          return;
+        }
+        await redisService.setRoomState(room.id, this.toRoomState(room), ROOM_STATE_TTL_SECONDS);
+        await redisService.refreshRoomState(room.id, ROOM_STATE_TTL_SECONDS);
+      });
+    }
+  }
+
+  // Refreshes this instance's claim on the room. Another instance may have taken it over, for
+  // example after missed refreshes let the claim expire; then the room is no longer hosted here.
+  private async keepOwnership(room: Room): Promise<boolean> {
+    if (await redisService.claimRoomOwner(room.id, config.cluster.instanceId, ROOM_STATE_TTL_SECONDS)) {
+      return true;
+    }
+
+    this.rooms.delete(room.id);
+
+    // The room is given up here either way, without an owner its participants are not redirected
+    let owner: ClusterInstance | null = null;
+    try {
+      await redisService.unsubscribe(this.getChannel(room.id));
+      const ownerId = await redisService.getRoomOwner(room.id);
+      owner = ownerId ? await redisService.getInstance(ownerId) : null;
+    } catch (error) {
+      logRoomEvent('warn', 'Failed to look up new room owner', room.id, undefined, {
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+
+    logRoomEvent('warn', 'Room was taken over by another instance', room.id, undefined, {
+      instanceId: owner?.instanceId,
+    });
+
+    for (const handler of this.ownershipLostHandlers) {
+      try {
+        handler(room.id, owner);
+      } catch (error) {
+        logRoomEvent('error', 'Cluster ownership handler failed', room.id, undefined, {
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+
+    return false;
+  }
+
+  // Best effort: the local room keeps working when Redis is unavailable
+  private async run(what: string, roomId: string, operation: () => Promise<unknown>): Promise<void> {
+    if (!this.isEnabled()) {
+      return;
+    }
+
+    try {
+      await operation();
+    } catch (error) {
+      logRoomEvent('warn', `Failed to mirror ${what} to Redis`, roomId, undefined, {
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  // Pub/sub channels are not covered by the client key prefix
+  private getChannel(roomId: string): string {
+    return `${config.redis.keyPrefix}room:${roomId}:events`;
+  }
+
+  private toRoomState(room: Room): ClusterRoomState {
+    return {
+      id: room.id,
+      name: room.name,
+      instanceId: room.instanceId,
+      maxParticipants: room.maxParticipants,
+      participantCount: room.participants.size,
+      isActive: room.isActive,
+      createdAt: room.createdAt.toISOString(),
+      updatedAt: room.updatedAt.toISOString(),
+    };
+  }
+
+  private toParticipantState(participant: Participant): ClusterParticipantState {
+    return {
+      id: participant.id,
+      userId: participant.userId,
+      ...(participant.deviceId && { deviceId: participant.deviceId }),
+      displayName: participant.displayName,
+      instanceId: config.cluster.instanceId,
+      isAudioEnabled: participant.isAudioEnabled,
+      isVideoEnabled: participant.isVideoEnabled,
+      isScreenSharing: participant.isScreenSharing,
+      isHidden: participant.isHidden === true,
+      joinedAt: participant.joinedAt.toISOString(),
+    };
+  }
+}
+
+// Singleton instance
+export const clusterService = new ClusterService();
@@ -2,7 +2,7 @@ import { Pool, PoolClient } from 'pg';
 import { config } from '@/config';
 import { logSystemEvent } from '@/utils/logger';
 import { createSystemError, ERROR_CODES } from '@/utils/errors';
-import { RoomRecord, ParticipantRecord, RoomEventRecord } from '@/types';
+import { RoomRecord, ParticipantRecord, RoomEventRecord, ChatMessageRecord, WebhookPayload, WebhookOutboxRecord, WebhookDeadLetterRecord } from '@/types';
 
 // const logger = createLogger({ component: 'database' });
 
@@ -130,9 +130,17 @@ export class DatabaseService {
 
   // Room operations
   async createRoom(room: RoomRecord): Promise<void> {
+    // Session rooms are recreated under the same ID, the row is kept for its event history
     const query = `
       INSERT INTO rooms (id, name, description, max_participants, is_active, instance_id, created_at, updated_at)
       VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+      ON CONFLICT (id) DO UPDATE SET
+        name = EXCLUDED.name,
+        description = EXCLUDED.description,
+        max_participants = EXCLUDED.max_participants,
+        is_active = EXCLUDED.is_active,
+        instance_id = EXCLUDED.instance_id,
+        updated_at = EXCLUDED.updated_at
     `;
     
     await this.query(query, [
@@ -218,6 +226,7 @@ export class DatabaseService {
       INSERT INTO participants (id, user_id, room_id, display_name, is_audio_enabled, is_video_enabled, 
                                is_screen_sharing, joined_at, last_seen, created_at, updated_at)
       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)
+      ON CONFLICT (id) DO NOTHING
     `;
     
     await this.query(query, [
@@ -285,6 +294,18 @@ export class DatabaseService {
     logSystemEvent('info', 'Participant deleted from database', 'database', { participantId });
   }
 
+  async deleteRoomParticipants(roomId: string): Promise<number> {
+    const query = 'DELETE FROM participants WHERE room_id = $1';
+    const result = await this.query(query, [roomId]);
+
+    logSystemEvent('info', 'Room participants deleted from database', 'database', {
+      roomId,
+      deletedCount: result.rowCount,
+    });
+
+    return result.rowCount || 0;
+  }
+
   async getRoomParticipants(roomId: string): Promise<ParticipantRecord[]> {
     const query = 'SELECT * FROM participants WHERE room_id = $1 ORDER BY joined_at ASC';
     const result = await this.query(query, [roomId]);
@@ -347,6 +368,201 @@ export class DatabaseService {
     }));
   }
 
+  // Chat operations
+  async createChatMessage(message: ChatMessageRecord): Promise<void> {
+    const query = `
+      INSERT INTO chat_messages (
+        id, room_id, sender_participant_id, sender_user_id, sender_display_name,
+        recipient_participant_id, recipient_user_id, content, created_at
+      )
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+    `;
+
+    await this.query(query, [
+      message.id,
+      message.room_id,
+      message.sender_participant_id,
+      message.sender_user_id,
+      message.sender_display_name,
+      message.recipient_participant_id ?? null,
+      message.recipient_user_id ?? null,
+      message.content,
+      message.created_at,
+    ]);
+  }
+
+  // Returns room-wide messages plus direct messages sent or received by userId, newest first
+  async getChatMessages(roomId: string, userId: string, limit: number = 50, before?: Date): Promise<ChatMessageRecord[]> {
+    const query = `
+      SELECT * FROM chat_messages
+      WHERE room_id = $1
+        AND deleted_at IS NULL
+        AND (recipient_user_id IS NULL OR sender_user_id = $2 OR recipient_user_id = $2)
+        AND ($3::timestamptz IS NULL OR created_at < $3)
+      ORDER BY created_at DESC
+      LIMIT $4
+    `;
+
+    const result = await this.query(query, [roomId, userId, before ?? null, limit]);
+
+    return result.rows.map((row: any) => this.mapChatMessageRow(row));
+  }
+
+  async deleteChatMessage(roomId: string, messageId: string, deletedBy: string): Promise<ChatMessageRecord | null> {
+    const query = `
+      UPDATE chat_messages
+      SET deleted_at = NOW(), deleted_by = $3
+      WHERE room_id = $1 AND id = $2 AND deleted_at IS NULL
+      RETURNING *
+    `;
+
+    const result = await this.query(query, [roomId, messageId, deletedBy]);
+    if (result.rows.length === 0) {
+      return null;
+    }
+
+    return this.mapChatMessageRow(result.rows[0]);
+  }
+
+  private mapChatMessageRow(row: any): ChatMessageRecord {
+    return {
+      id: row.id,
+      room_id: row.room_id,
+      sender_participant_id: row.sender_participant_id,
+      sender_user_id: row.sender_user_id,
+      sender_display_name: row.sender_display_name,
+      recipient_participant_id: row.recipient_participant_id ?? undefined,
+      recipient_user_id: row.recipient_user_id ?? undefined,
+      content: row.content,
+      created_at: row.created_at,
+      deleted_at: row.deleted_at ?? undefined,
+      deleted_by: row.deleted_by ?? undefined,
+    };
+  }
+
+  // Webhook outbox operations
+  async enqueueWebhook(id: string, payload: WebhookPayload): Promise<void> {
+    const query = `
+      INSERT INTO webhook_outbox (id, event, payload)
+      VALUES ($1, $2, $3)
+    `;
+
+    await this.query(query, [id, payload.event, JSON.stringify(payload)]);
+  }
+
+  // Locks due webhooks for lockMs and counts the attempt. SKIP LOCKED lets
+  // several instances work the same outbox without sending anything twice.
+  async claimWebhooks(limit: number, lockMs: number): Promise<WebhookOutboxRecord[]> {
+    const query = `
+      UPDATE webhook_outbox
+      SET attempts = attempts + 1,
+          locked_until = NOW() + ($2 * INTERVAL '1 millisecond')
+      WHERE id IN (
+        SELECT id FROM webhook_outbox
+        WHERE next_attempt_at <= NOW()
+          AND (locked_until IS NULL OR locked_until < NOW())
+        ORDER BY next_attempt_at
+        LIMIT $1
+        FOR UPDATE SKIP LOCKED
+      )
+      RETURNING *
+    `;
+
+    const result = await this.query(query, [limit, lockMs]);
+
+    return result.rows.map((row: any) => this.mapWebhookOutboxRow(row));
+  }
+
+  async completeWebhook(id: string): Promise<void> {
+    await this.query('DELETE FROM webhook_outbox WHERE id = $1', [id]);
+  }
+
+  async rescheduleWebhook(id: string, nextAttemptAt: Date, error: string): Promise<void> {
+    const query = `
+      UPDATE webhook_outbox
+      SET next_attempt_at = $2, locked_until = NULL, last_error = $3
+      WHERE id = $1
+    `;
+
+    await this.query(query, [id, nextAttemptAt, error]);
+  }
+
+  async deadLetterWebhook(id: string, error: string): Promise<void> {
+    const query = `
+      WITH failed AS (
+        DELETE FROM webhook_outbox WHERE id = $1 RETURNING *
+      )
+      INSERT INTO webhook_dead_letters (id, event, payload, attempts, last_error, created_at)
+      SELECT id, event, payload, attempts, $2, created_at FROM failed
+    `;
+
+    await this.query(query, [id, error]);
+  }
+
+  async getWebhookDeadLetters(limit: number = 100): Promise<WebhookDeadLetterRecord[]> {
+    const query = `
+      SELECT * FROM webhook_dead_letters
+      ORDER BY failed_at DESC
+      LIMIT $1
+    `;
+
+    const result = await this.query(query, [limit]);
+
+    return result.rows.map((row: any) => ({
+      id: row.id,
+      event: row.event,
+      payload: row.payload,
+      attempts: row.attempts,
+      last_error: row.last_error ?? undefined,
+      created_at: row.created_at,
+      failed_at: row.failed_at,
+    }));
+  }
+
+  // Moves dead letters back to the outbox with a fresh attempt count, all of them without an ID
+  async replayWebhookDeadLetters(id?: string): Promise<string[]> {
+    const query = `
+      WITH replayed AS (
+        DELETE FROM webhook_dead_letters WHERE ($1::uuid IS NULL OR id = $1) RETURNING *
+      )
+      INSERT INTO webhook_outbox (id, event, payload, created_at)
+      SELECT id, event, payload, created_at FROM replayed
+      RETURNING id
+    `;
+
+    const result = await this.query(query, [id ?? null]);
+
+    return result.rows.map((row: any) => row.id);
+  }
+
+  async getWebhookOutboxStats(): Promise<{ pending: number; deadLetters: number }> {
+    const query = `
+      SELECT
+        (SELECT COUNT(*) FROM webhook_outbox) AS pending,
+        (SELECT COUNT(*) FROM webhook_dead_letters) AS dead_letters
+    `;
+
+    const result = await this.query(query);
+    const row = result.rows[0];
+
+    return {
+      pending: parseInt(row?.pending ?? '0'),
+      deadLetters: parseInt(row?.dead_letters ?? '0'),
+    };
+  }
+
+  private mapWebhookOutboxRow(row: any): WebhookOutboxRecord {
+    return {
+      id: row.id,
+      event: row.event,
+      payload: row.payload,
+      attempts: row.attempts,
+      next_attempt_at: row.next_attempt_at,
+      last_error: row.last_error ?? undefined,
+      created_at: row.created_at,
+    };
+  }
+
   // Statistics
   async getRoomStats(roomId: string): Promise<any> {
     const query = `
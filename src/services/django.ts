@@ -0,0 +1,229 @@
+import axios, { AxiosResponse } from 'axios';
+import { config } from '@/config';
+import { SFUError } from '@/types';
+import { logSystemEvent } from '@/utils/logger';
+import { ERROR_CODES } from '@/utils/errors';
+
+// const logger = createLogger({ component: 'django' });
+
+// Bounds memory when many users and rooms pass through one instance
+const MAX_CACHE_ENTRIES = 10000;
+
+export type DjangoEndpoint = 'user' | 'roomAccess' | 'roomPolicy' | 'entitlements';
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+export interface DjangoCall<T> {
+  endpoint: DjangoEndpoint;
+  key: string; // Cache and coalescing key within the endpoint
+  method: 'get' | 'post';
+  path: string;
+  body?: unknown;
+  // Turns a non-5xx response into the answer, throwing for answers that must not be cached
+  parse: (response: AxiosResponse) => T;
+}
+
+export interface DjangoClientStatus {
+  circuit: CircuitState;
+  consecutiveFailures: number;
+  openedAt?: string;
+  lastFailure?: { at: string; endpoint: DjangoEndpoint; error: string };
+  failOpen: string[];
+  cacheEntries: Record<DjangoEndpoint, number>;
+}
+
+interface CacheEntry {
+  value: unknown;
+  expiresAt: number;
+}
+
+// Every call to Django's SFU endpoints goes through here. Answers are cached per endpoint,
+// concurrent identical calls share one request, and a circuit breaker stops calls to Django
+// after repeated failures, letting a single probe through once the reset timeout passes.
+export class DjangoClient {
+  private circuit: CircuitState = 'closed';
+  private consecutiveFailures = 0;
+  private openedAt?: Date;
+  private lastFailure?: { at: Date; endpoint: DjangoEndpoint; error: string };
+  private caches = new Map<DjangoEndpoint, Map<string, CacheEntry>>();
+  private inflight = new Map<string, Promise<unknown>>();
+
+  // fallback answers the call while Django is unavailable, if the endpoint is configured to fail open
+  async request<T>(call: DjangoCall<T>, fallback?: () => T): Promise<T> {
+    const cached = this.getCache(call.endpoint).get(call.key);
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.value as T;
+    }
+
+    const inflightKey = `${call.endpoint}:${call.key}`;
+    let pending = this.inflight.get(inflightKey) as Promise<T> | undefined;
+    if (!pending) {
+      pending = this.execute(call).finally(() => this.inflight.delete(inflightKey));
+      this.inflight.set(inflightKey, pending);
+    }
+
+    try {
+      return await pending;
+    } catch (error) {
+      if (fallback && error instanceof SFUError && error.code === ERROR_CODES.DJANGO_CONNECTION_ERROR &&
+          config.django.failOpen.includes(call.endpoint)) {
+        return fallback();
+      }
+      throw error;
+    }
+  }
+
+  // Drop a cached answer Django told us is stale
+  invalidate(endpoint: DjangoEndpoint, key: string): void {
+    this.getCache(endpoint).delete(key);
+  }
+
+  getStatus(): DjangoClientStatus {
+    const cacheEntries = {} as Record<DjangoEndpoint, number>;
+    for (const endpoint of Object.keys(config.django.cacheTtl) as DjangoEndpoint[]) {
+      cacheEntries[endpoint] = this.getCache(endpoint).size;
+    }
+
+    return {
+      circuit: this.getCircuitState(),
+      consecutiveFailures: this.consecutiveFailures,
+      ...(this.openedAt && { openedAt: this.openedAt.toISOString() }),
+      ...(this.lastFailure && {
+        lastFailure: {
+          at: this.lastFailure.at.toISOString(),
+          endpoint: this.lastFailure.endpoint,
+          error: this.lastFailure.error,
+        },
+      }),
+      failOpen: config.django.failOpen,
+      cacheEntries,
+    };
+  }
+
+  private async execute<T>(call: DjangoCall<T>): Promise<T> {
+    if (!this.acquire()) {
+      throw new SFUError(ERROR_CODES.DJANGO_CONNECTION_ERROR, 'Django is unavailable', {
+        endpoint: call.endpoint,
+        circuit: this.circuit,
+      });
+    }
+
+    let response: AxiosResponse;
+    try {
+      response = await axios.request({
+        method: call.method,
+        url: `${config.django.baseUrl}${call.path}`,
+        ...(call.body !== undefined && { data: call.body }),
+        timeout: config.django.requestTimeout,
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        // 4xx answers are Django's decision, only 5xx and network errors count against the circuit
+        validateStatus: status => status < 500,
+      });
+    } catch (error) {
+      this.recordFailure(call.endpoint, error);
+      throw new SFUError(ERROR_CODES.DJANGO_CONNECTION_ERROR, 'Django request failed', {
+        endpoint: call.endpoint,
+      });
+    }
+
+    this.recordSuccess();
+
+    const value = call.parse(response);
+    this.setCache(call.endpoint, call.key, value);
+    return value;
+  }
+
+  // Whether a request may go out now. Half-open lets exactly one probe through.
+  private acquire(): boolean {
+    const state = this.getCircuitState();
+    if (state === 'closed') {
+      return true;
+    }
+    if (state === 'open') {
+      return false;
+    }
+
+    if (this.circuit === 'half-open') {
+      return false; // A probe is already out
+    }
+
+    this.circuit = 'half-open';
+    logSystemEvent('info', 'Django circuit half-open, sending probe', 'django');
+    return true;
+  }
+
+  private getCircuitState(): CircuitState {
+    if (this.circuit === 'open' && this.openedAt &&
+        Date.now() - this.openedAt.getTime() >= config.django.breaker.resetTimeout) {
+      return 'half-open';
+    }
+    return this.circuit;
+  }
+
+  private recordSuccess(): void {
+    if (this.circuit !== 'closed') {
+      logSystemEvent('info', 'Django circuit closed', 'django');
+    }
+
+    this.circuit = 'closed';
+    this.consecutiveFailures = 0;
+    delete this.openedAt;
+  }
+
+  private recordFailure(endpoint: DjangoEndpoint, error: unknown): void {
+    const message = error instanceof Error ? error.message : String(error);
+    this.consecutiveFailures++;
+    this.lastFailure = { at: new Date(), endpoint, error: message };
+
+    logSystemEvent('warn', 'Django request failed', 'django', {
+      endpoint,
+      error: message,
+      status: axios.isAxiosError(error) ? error.response?.status : undefined,
+      consecutiveFailures: this.consecutiveFailures,
+    });
+
+    // A failed probe opens the circuit again right away
+    if (this.circuit === 'half-open' || this.consecutiveFailures >= config.django.breaker.failureThreshold) {
+      if (this.circuit !== 'open') {
+        logSystemEvent('error', 'Django circuit opened', 'django', {
+          consecutiveFailures: this.consecutiveFailures,
+          resetTimeout: config.django.breaker.resetTimeout,
+        });
+      }
+      this.circuit = 'open';
+      this.openedAt = new Date();
+    }
+  }
+
+  private getCache(endpoint: DjangoEndpoint): Map<string, CacheEntry> {
+    let cache = this.caches.get(endpoint);
+    if (!cache) {
+      cache = new Map();
+      this.caches.set(endpoint, cache);
+    }
+    return cache;
+  }
+
+  private setCache(endpoint: DjangoEndpoint, key: string, value: unknown): void {
+    const ttl = config.django.cacheTtl[endpoint];
+    if (ttl <= 0) {
+      return;
+    }
+
+    const cache = this.getCache(endpoint);
+    cache.delete(key);
+    if (cache.size >= MAX_CACHE_ENTRIES) {
+      // Maps iterate in insertion order, so this is the oldest entry
+      const oldest = cache.keys().next().value;
+      if (oldest !== undefined) {
+        cache.delete(oldest);
+      }
+    }
+    cache.set(key, { value, expiresAt: Date.now() + ttl });
+  }
+}
+
+// Singleton instance
+export const djangoClient = new DjangoClient();
@@ -0,0 +1,90 @@
+import { config } from '@/config';
+import { logSystemEvent } from '@/utils/logger';
+
+// const logger = createLogger({ component: 'drain' });
+
+const IDLE_CHECK_INTERVAL = 1000;
+
+export type DrainTrigger = 'admin' | 'signal';
+
+export type DrainHandler = (deadline: Date) => void;
+
+export interface DrainStatus {
+  draining: boolean;
+  trigger?: DrainTrigger;
+  startedAt?: string;
+  deadline?: string;
+}
+
+// Drain mode for rolling deployments: the instance stops taking new rooms, reports
+// not-ready and lets running classes finish until the grace period runs out.
+export class DrainService {
+  private trigger?: DrainTrigger;
+  private startedAt?: Date;
+  private deadline?: Date;
+  private drainPromise?: Promise<void>;
+  private handlers: DrainHandler[] = [];
+
+  // Register a callback run once when draining starts
+  onDrain(handler: DrainHandler): void {
+    this.handlers.push(handler);
+  }
+
+  isDraining(): boolean {
+    return this.drainPromise !== undefined;
+  }
+
+  getStatus(): DrainStatus {
+    return {
+      draining: this.isDraining(),
+      ...(this.trigger && { trigger: this.trigger }),
+      ...(this.startedAt && { startedAt: this.startedAt.toISOString() }),
+      ...(this.deadline && { deadline: this.deadline.toISOString() }),
+    };
+  }
+
+  // Resolves once isIdle() holds or the grace period is over, whichever comes first.
+  // Later calls join the drain already in progress.
+  drain(trigger: DrainTrigger, isIdle: () => boolean): Promise<void> {
+    if (this.drainPromise) {
+      return this.drainPromise;
+    }
+
+    this.trigger = trigger;
+    this.startedAt = new Date();
+    this.deadline = new Date(this.startedAt.getTime() + config.drain.gracePeriod);
+
+    logSystemEvent('info', 'Drain started', 'drain', {
+      trigger,
+      deadline: this.deadline.toISOString(),
+    });
+
+    for (const handler of this.handlers) {
+      try {
+        handler(this.deadline);
+      } catch (error) {
+        logSystemEvent('error', 'Drain handler failed', 'drain', {
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+
+    this.drainPromise = this.waitUntilIdle(this.deadline, isIdle);
+    return this.drainPromise;
+  }
+
+  private async waitUntilIdle(deadline: Date, isIdle: () => boolean): Promise<void> {
+    while (!isIdle()) {
+      if (Date.now() >= deadline.getTime()) {
+        logSystemEvent('warn', 'Drain grace period expired with rooms still active', 'drain');
+        return;
+      }
+      await new Promise(resolve => setTimeout(resolve, IDLE_CHECK_INTERVAL));
+    }
+
+    logSystemEvent('info', 'Drain completed, all rooms are empty', 'drain');
+  }
+}
+
+// Singleton instance
+export const drainService = new DrainService();
@@ -3,6 +3,8 @@ import { redisService } from './redis';
 import { databaseService } from './database';
 import { webhookService } from './webhook';
 import { mediasoupService } from './mediasoup';
+import { drainService } from './drain';
+import { djangoClient } from './django';
 import { config } from '@/config';
 import { HealthStatus } from '@/types';
 
@@ -248,6 +250,11 @@ export class HealthService {
 
   // Readiness probe - check if service is ready to accept requests
   async isReady(): Promise<boolean> {
+    // Draining instances drop out of the load balancer while their rooms wind down
+    if (drainService.isDraining()) {
+      return false;
+    }
+
     try {
       const healthStatus = await this.getHealthStatus();
       
@@ -286,6 +293,7 @@ export class HealthService {
         },
         uptime: process.uptime(),
       },
+      django: djangoClient.getStatus(),
       config: {
         instanceId: config.cluster.instanceId,
         clusterMode: config.cluster.mode,
@@ -8,10 +8,45 @@ import fs from 'fs';
 
 // const logger = createLogger({ component: 'mediasoup' });
 
+const WORKER_RESPAWN_ATTEMPTS = 5;
+const WORKER_RESPAWN_MAX_DELAY = 10000; // 10 seconds
+const WORKER_USAGE_SAMPLE_INTERVAL = 5000; // 5 seconds
+
+// Load score weights, in units of one consumer. A router counts for a few consumers so
+// that empty rooms are spread out before anyone joins them; CPU catches workers that are
+// busy with fewer but heavier streams (simulcast, high bitrates).
+const ROUTER_LOAD_WEIGHT = 10;
+const CPU_PERCENT_LOAD_WEIGHT = 5;
+
+export type WorkerDiedHandler = (worker: mediasoupTypes.Worker) => Promise<void> | void;
+
+interface WorkerLoad {
+  routers: number;
+  transports: number;
+  producers: number;
+  consumers: number;
+  cpuPercent: number;
+  lastCpuTime: number;
+  lastSampleAt: number;
+}
+
+export interface WorkerStats {
+  pid: number;
+  routers: number;
+  transports: number;
+  producers: number;
+  consumers: number;
+  cpuPercent: number;
+  loadScore: number;
+}
+
 export class MediasoupService {
   private workers: mediasoupTypes.Worker[] = [];
-  private nextWorkerIndex = 0;
+  private workerLoads = new Map<mediasoupTypes.Worker, WorkerLoad>();
+  private routerWorkers = new Map<string, mediasoupTypes.Worker>();
+  private usageSampleInterval?: NodeJS.Timeout;
   private isInitialized = false;
+  private workerDiedHandlers: WorkerDiedHandler[] = [];
 
   /**
    * Get the correct mediasoup-worker binary path for the current platform
@@ -79,36 +114,16 @@ export class MediasoupService {
 
       // Create workers
       for (let i = 0; i < numWorkers; i++) {
-        const workerSettings: mediasoupTypes.WorkerSettings = {
-          logLevel: config.mediasoup.worker.logLevel as mediasoupTypes.WorkerLogLevel,
-          logTags: [config.mediasoup.worker.logTag as mediasoupTypes.WorkerLogTag],
-          rtcMinPort: config.mediasoup.worker.rtcMinPort,
-          rtcMaxPort: config.mediasoup.worker.rtcMaxPort,
-        };
-
-        // On Windows, explicitly set the worker path
-        if (process.platform === 'win32') {
-          const workerBin = this.getWorkerBinPath();
-          if (workerBin) {
-            // Normalize path for Windows
-            (workerSettings as any).workerPath = path.normalize(workerBin);
-            logSystemEvent('info', `Using worker path: ${(workerSettings as any).workerPath}`, 'mediasoup', { workerIndex: i });
-          }
-        } else if (config.mediasoup.worker.bin && config.mediasoup.worker.bin !== 'mediasoup-worker') {
-          (workerSettings as any).workerPath = config.mediasoup.worker.bin;
-        }
-
-        const worker = await mediasoup.createWorker(workerSettings);
-
-        worker.on('died', (error) => {
-          logSystemEvent('error', `Mediasoup worker died: ${error.message}`, 'mediasoup', { workerIndex: i, error: error.message });
-          process.exit(1);
-        });
-
+        const worker = await this.createWorker(i);
         this.workers.push(worker);
         logSystemEvent('info', `Created mediasoup worker ${i + 1}/${numWorkers}`, 'mediasoup', { workerIndex: i });
       }
 
+      this.usageSampleInterval = setInterval(() => {
+        void this.sampleWorkerUsage();
+      }, WORKER_USAGE_SAMPLE_INTERVAL);
+      this.usageSampleInterval.unref();
+
       this.isInitialized = true;
       logSystemEvent('info', 'Mediasoup service initialized successfully', 'mediasoup', { workerCount: this.workers.length });
     } catch (error) {
@@ -117,19 +132,239 @@ export class MediasoupService {
     }
   }
 
+  private async createWorker(index: number): Promise<mediasoupTypes.Worker> {
+    const workerSettings: mediasoupTypes.WorkerSettings = {
+      logLevel: config.mediasoup.worker.logLevel as mediasoupTypes.WorkerLogLevel,
+      logTags: [config.mediasoup.worker.logTag as mediasoupTypes.WorkerLogTag],
+      rtcMinPort: config.mediasoup.worker.rtcMinPort,
+      rtcMaxPort: config.mediasoup.worker.rtcMaxPort,
+    };
+
+    // On Windows, explicitly set the worker path
+    if (process.platform === 'win32') {
+      const workerBin = this.getWorkerBinPath();
+      if (workerBin) {
+        // Normalize path for Windows
+        (workerSettings as any).workerPath = path.normalize(workerBin);
+        logSystemEvent('info', `Using worker path: ${(workerSettings as any).workerPath}`, 'mediasoup', { workerIndex: index });
+      }
+    } else if (config.mediasoup.worker.bin && config.mediasoup.worker.bin !== 'mediasoup-worker') {
+      (workerSettings as any).workerPath = config.mediasoup.worker.bin;
+    }
+
+    const worker = await mediasoup.createWorker(workerSettings);
+    this.trackWorkerLoad(worker);
+
+    worker.on('died', (error) => {
+      this.handleWorkerDied(worker, index, error).catch(handlerError => {
+        logSystemEvent('error', 'Failed to recover from mediasoup worker death', 'mediasoup', {
+          workerIndex: index,
+          error: handlerError instanceof Error ? handlerError.message : String(handlerError),
+        });
+      });
+    });
+
+    return worker;
+  }
+
+  // Register a callback run after a dead worker has been replaced (or given up on).
+  // By then mediasoup has already closed every router that lived on the dead worker.
+  onWorkerDied(handler: WorkerDiedHandler): void {
+    this.workerDiedHandlers.push(handler);
+  }
+
+  private async handleWorkerDied(worker: mediasoupTypes.Worker, index: number, error: Error): Promise<void> {
+    logSystemEvent('error', `Mediasoup worker died: ${error.message}`, 'mediasoup', { workerIndex: index, pid: worker.pid, error: error.message });
+
+    // Workers going away during shutdown are not respawned
+    if (!this.isInitialized) {
+      return;
+    }
+
+    // Take the dead worker out of rotation so new rooms land on healthy workers
+    this.workers = this.workers.filter(w => w !== worker);
+    this.workerLoads.delete(worker);
+
+    try {
+      const replacement = await this.respawnWorker(index);
+      this.workers.push(replacement);
+      logSystemEvent('info', 'Respawned mediasoup worker', 'mediasoup', { workerIndex: index, pid: replacement.pid, workerCount: this.workers.length });
+    } catch (respawnError) {
+      logSystemEvent('error', 'Failed to respawn mediasoup worker', 'mediasoup', {
+        workerIndex: index,
+        error: respawnError instanceof Error ? respawnError.message : String(respawnError),
+      });
+
+      // Without any worker the instance cannot serve media at all
+      if (this.workers.length === 0) {
+        logSystemEvent('error', 'No mediasoup workers left, exiting', 'mediasoup');
+        process.exit(1);
+      }
+    }
+
+    for (const handler of this.workerDiedHandlers) {
+      try {
+        await handler(worker);
+      } catch (handlerError) {
+        logSystemEvent('error', 'Worker died handler failed', 'mediasoup', {
+          error: handlerError instanceof Error ? handlerError.message : String(handlerError),
+        });
+      }
+    }
+  }
+
+  private async respawnWorker(index: number): Promise<mediasoupTypes.Worker> {
+    let lastError: unknown;
+
+    for (let attempt = 1; attempt <= WORKER_RESPAWN_ATTEMPTS; attempt++) {
+      try {
+        return await this.createWorker(index);
+      } catch (error) {
+        lastError = error;
+        const delay = Math.min(1000 * Math.pow(2, attempt - 1), WORKER_RESPAWN_MAX_DELAY);
+        logSystemEvent('warn', 'Mediasoup worker respawn attempt failed', 'mediasoup', {
+          workerIndex: index,
+          attempt,
+          retryIn: delay,
+          error: error instanceof Error ? error.message : String(error),
+        });
+        await new Promise(resolve => setTimeout(resolve, delay));
+      }
+    }
+
+    throw lastError;
+  }
+
   getWorker(): mediasoupTypes.Worker {
     if (!this.isInitialized || this.workers.length === 0) {
       throw createSystemError('Mediasoup service not initialized', 'mediasoup');
     }
 
-    // Round-robin worker selection
-    const worker = this.workers[this.nextWorkerIndex];
-    if (!worker) {
+    // Least-loaded worker selection
+    let selected: mediasoupTypes.Worker | undefined;
+    let selectedScore = Infinity;
+    for (const worker of this.workers) {
+      const score = this.getLoadScore(worker);
+      if (score < selectedScore) {
+        selected = worker;
+        selectedScore = score;
+      }
+    }
+
+    if (!selected) {
       throw createSystemError('No worker available', 'mediasoup');
     }
-    this.nextWorkerIndex = (this.nextWorkerIndex + 1) % this.workers.length;
-    
-    return worker;
+
+    return selected;
+  }
+
+  // Least-loaded worker that hosts none of the given routers, if there is one
+  getWorkerExcluding(routers: mediasoupTypes.Router[]): mediasoupTypes.Worker | undefined {
+    const excluded = new Set(routers.map(router => this.routerWorkers.get(router.id)));
+
+    let selected: mediasoupTypes.Worker | undefined;
+    let selectedScore = Infinity;
+    for (const worker of this.workers) {
+      if (excluded.has(worker)) {
+        continue;
+      }
+      const score = this.getLoadScore(worker);
+      if (score < selectedScore) {
+        selected = worker;
+        selectedScore = score;
+      }
+    }
+
+    return selected;
+  }
+
+  getWorkerStats(): WorkerStats[] {
+    return this.workers.map(worker => {
+      const load = this.workerLoads.get(worker);
+      return {
+        pid: worker.pid,
+        routers: load?.routers ?? 0,
+        transports: load?.transports ?? 0,
+        producers: load?.producers ?? 0,
+        consumers: load?.consumers ?? 0,
+        cpuPercent: Math.round((load?.cpuPercent ?? 0) * 10) / 10,
+        loadScore: Math.round(this.getLoadScore(worker)),
+      };
+    });
+  }
+
+  private getLoadScore(worker: mediasoupTypes.Worker): number {
+    const load = this.workerLoads.get(worker);
+    if (!load) {
+      return 0;
+    }
+
+    return load.consumers + load.routers * ROUTER_LOAD_WEIGHT + load.cpuPercent * CPU_PERCENT_LOAD_WEIGHT;
+  }
+
+  // Keep live counts per worker from mediasoup's observer events
+  private trackWorkerLoad(worker: mediasoupTypes.Worker): void {
+    const load: WorkerLoad = {
+      routers: 0,
+      transports: 0,
+      producers: 0,
+      consumers: 0,
+      cpuPercent: 0,
+      lastCpuTime: 0,
+      lastSampleAt: Date.now(),
+    };
+    this.workerLoads.set(worker, load);
+
+    worker.observer.on('newrouter', (router) => {
+      load.routers++;
+      this.routerWorkers.set(router.id, worker);
+      router.observer.once('close', () => {
+        load.routers--;
+        this.routerWorkers.delete(router.id);
+      });
+
+      router.observer.on('newtransport', (transport) => {
+        load.transports++;
+        transport.observer.once('close', () => { load.transports--; });
+
+        transport.observer.on('newproducer', (producer) => {
+          load.producers++;
+          producer.observer.once('close', () => { load.producers--; });
+        });
+
+        transport.observer.on('newconsumer', (consumer) => {
+          load.consumers++;
+          consumer.observer.once('close', () => { load.consumers--; });
+        });
+      });
+    });
+  }
+
+  private async sampleWorkerUsage(): Promise<void> {
+    for (const worker of this.workers) {
+      const load = this.workerLoads.get(worker);
+      if (!load) {
+        continue;
+      }
+
+      try {
+        const usage = await worker.getResourceUsage();
+        const cpuTime = usage.ru_utime + usage.ru_stime; // milliseconds
+        const now = Date.now();
+        const elapsed = now - load.lastSampleAt;
+
+        if (elapsed > 0) {
+          load.cpuPercent = Math.min(100, Math.max(0, ((cpuTime - load.lastCpuTime) / elapsed) * 100));
+        }
+        load.lastCpuTime = cpuTime;
+        load.lastSampleAt = now;
+      } catch (error) {
+        logSystemEvent('warn', 'Failed to sample mediasoup worker usage', 'mediasoup', {
+          pid: worker.pid,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
   }
 
   getWorkerCount(): number {
@@ -157,10 +392,41 @@ export class MediasoupService {
     }
   }
 
+  async createAudioLevelObserver(router: mediasoupTypes.Router): Promise<mediasoupTypes.AudioLevelObserver> {
+    try {
+      const observer = await router.createAudioLevelObserver({
+        maxEntries: config.speaker.audioLevelMaxEntries,
+        threshold: config.speaker.audioLevelThreshold,
+        interval: config.speaker.audioLevelInterval,
+      });
+
+      logSystemEvent('info', 'Created audio level observer', 'mediasoup', { routerId: router.id, observerId: observer.id });
+      return observer;
+    } catch (error) {
+      logSystemEvent('error', 'Failed to create audio level observer', 'mediasoup', { error: error instanceof Error ? error.message : String(error) });
+      throw createSystemError('Failed to create audio level observer', 'mediasoup', { error: error instanceof Error ? error.message : String(error) });
+    }
+  }
+
+  async createActiveSpeakerObserver(router: mediasoupTypes.Router): Promise<mediasoupTypes.ActiveSpeakerObserver> {
+    try {
+      const observer = await router.createActiveSpeakerObserver({
+        interval: config.speaker.activeSpeakerInterval,
+      });
+
+      logSystemEvent('info', 'Created active speaker observer', 'mediasoup', { routerId: router.id, observerId: observer.id });
+      return observer;
+    } catch (error) {
+      logSystemEvent('error', 'Failed to create active speaker observer', 'mediasoup', { error: error instanceof Error ? error.message : String(error) });
+      throw createSystemError('Failed to create active speaker observer', 'mediasoup', { error: error instanceof Error ? error.message : String(error) });
+    }
+  }
+
   async createWebRtcTransport(
     router: mediasoupTypes.Router,
     direction: 'send' | 'recv',
-    sctpCapabilities?: mediasoupTypes.SctpCapabilities
+    sctpCapabilities?: mediasoupTypes.SctpCapabilities,
+    maxBitrate: number = 1000000
   ): Promise<mediasoupTypes.WebRtcTransport> {
     try {
       const transport = await router.createWebRtcTransport({
@@ -171,8 +437,9 @@ export class MediasoupService {
         enableUdp: true,
         enableTcp: true,
         preferUdp: true,
-        initialAvailableOutgoingBitrate: 1000000,
-        enableSctp: direction === 'recv' && sctpCapabilities !== undefined,
+        initialAvailableOutgoingBitrate: maxBitrate,
+        // Data channels need SCTP on both sides: send for produceData, recv for consumeData
+        enableSctp: sctpCapabilities !== undefined,
         ...(sctpCapabilities?.numStreams && { numSctpStreams: sctpCapabilities.numStreams }),
         appData: {
           direction,
@@ -180,9 +447,15 @@ export class MediasoupService {
         },
       });
 
+      // Clients may not send more than the room allows
+      if (direction === 'send') {
+        await transport.setMaxIncomingBitrate(maxBitrate);
+      }
+
       logSystemEvent('info', 'Created WebRTC transport', 'mediasoup', { 
         transportId: transport.id, 
         direction,
+        maxBitrate,
         sctpEnabled: sctpCapabilities !== undefined 
       });
       
@@ -196,6 +469,35 @@ export class MediasoupService {
     }
   }
 
+  async createPlainTransport(
+    router: mediasoupTypes.Router,
+    appData?: any
+  ): Promise<mediasoupTypes.PlainTransport> {
+    try {
+      const transport = await router.createPlainTransport({
+        listenIp: { ip: config.recording.listenIp },
+        rtcpMux: false,
+        comedia: false,
+        appData: {
+          ...appData,
+          createdAt: Date.now(),
+        },
+      });
+
+      logSystemEvent('info', 'Created plain transport', 'mediasoup', {
+        transportId: transport.id,
+        localPort: transport.tuple.localPort,
+      });
+
+      return transport;
+    } catch (error) {
+      logSystemEvent('error', 'Failed to create plain transport', 'mediasoup', {
+        error: error instanceof Error ? error.message : String(error),
+      });
+      throw createSystemError('Failed to create plain transport', 'mediasoup', { error: error instanceof Error ? error.message : String(error) });
+    }
+  }
+
   async createProducer(
     transport: mediasoupTypes.WebRtcTransport,
     kind: 'audio' | 'video',
@@ -243,7 +545,7 @@ export class MediasoupService {
 
   async createConsumer(
     _router: mediasoupTypes.Router,
-    transport: mediasoupTypes.WebRtcTransport,
+    transport: mediasoupTypes.Transport,
     producerId: string,
     rtpCapabilities: mediasoupTypes.RtpCapabilities,
     appData?: any
@@ -275,6 +577,99 @@ export class MediasoupService {
     }
   }
 
+  async createDataProducer(
+    transport: mediasoupTypes.WebRtcTransport,
+    sctpStreamParameters: mediasoupTypes.SctpStreamParameters,
+    label?: string,
+    protocol?: string,
+    appData?: any
+  ): Promise<mediasoupTypes.DataProducer> {
+    try {
+      const dataProducer = await transport.produceData({
+        sctpStreamParameters,
+        ...(label !== undefined && { label }),
+        ...(protocol !== undefined && { protocol }),
+        appData: {
+          ...appData,
+          createdAt: Date.now(),
+        },
+      });
+
+      logSystemEvent('info', 'Created data producer', 'mediasoup', {
+        dataProducerId: dataProducer.id,
+        label: dataProducer.label,
+        transportId: transport.id,
+      });
+
+      return dataProducer;
+    } catch (error) {
+      logSystemEvent('error', 'Failed to create data producer', 'mediasoup', {
+        error: error instanceof Error ? error.message : String(error),
+        transportId: transport.id,
+      });
+      throw createSystemError('Failed to create data producer', 'mediasoup', { error: error instanceof Error ? error.message : String(error) });
+    }
+  }
+
+  async createDataConsumer(
+    transport: mediasoupTypes.WebRtcTransport,
+    dataProducerId: string,
+    appData?: any
+  ): Promise<mediasoupTypes.DataConsumer> {
+    try {
+      const dataConsumer = await transport.consumeData({
+        dataProducerId,
+        appData: {
+          ...appData,
+          createdAt: Date.now(),
+        },
+      });
+
+      logSystemEvent('info', 'Created data consumer', 'mediasoup', {
+        dataConsumerId: dataConsumer.id,
+        dataProducerId,
+        transportId: transport.id,
+      });
+
+      return dataConsumer;
+    } catch (error) {
+      logSystemEvent('error', 'Failed to create data consumer', 'mediasoup', {
+        error: error instanceof Error ? error.message : String(error),
+        dataProducerId,
+      });
+      throw createSystemError('Failed to create data consumer', 'mediasoup', { error: error instanceof Error ? error.message : String(error) });
+    }
+  }
+
+  // Routers must live on different workers: piped producers keep their original IDs
+  async pipeToRouter(
+    source: mediasoupTypes.Router,
+    target: mediasoupTypes.Router,
+    id: { producerId: string } | { dataProducerId: string }
+  ): Promise<mediasoupTypes.PipeToRouterResult> {
+    try {
+      const result = await source.pipeToRouter({
+        ...id,
+        router: target,
+        enableSctp: true,
+      });
+
+      logSystemEvent('info', 'Piped producer to router', 'mediasoup', {
+        ...id,
+        sourceRouterId: source.id,
+        targetRouterId: target.id,
+      });
+
+      return result;
+    } catch (error) {
+      logSystemEvent('error', 'Failed to pipe producer to router', 'mediasoup', {
+        ...id,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      throw createSystemError('Failed to pipe producer to router', 'mediasoup', { error: error instanceof Error ? error.message : String(error) });
+    }
+  }
+
   getRtpCapabilities(router: mediasoupTypes.Router): mediasoupTypes.RtpCapabilities {
     return router.rtpCapabilities;
   }
@@ -409,6 +804,11 @@ export class MediasoupService {
 
     logSystemEvent('info', 'Closing mediasoup service', 'mediasoup');
 
+    if (this.usageSampleInterval) {
+      clearInterval(this.usageSampleInterval);
+      delete this.usageSampleInterval;
+    }
+
     for (const worker of this.workers) {
       try {
         await worker.close();
@@ -420,6 +820,8 @@ export class MediasoupService {
     }
 
     this.workers = [];
+    this.workerLoads.clear();
+    this.routerWorkers.clear();
     this.isInitialized = false;
     
     logSystemEvent('info', 'Mediasoup service closed', 'mediasoup');
@@ -176,6 +176,27 @@ export const metrics = {
     registers: [register],
   }),
 
+  mediasoupWorkerResources: new client.Gauge({
+    name: 'sfu_mediasoup_worker_resources',
+    help: 'Number of mediasoup routers, transports, producers and consumers per worker',
+    labelNames: ['instance_id', 'worker_pid', 'resource'],
+    registers: [register],
+  }),
+
+  mediasoupWorkerCpu: new client.Gauge({
+    name: 'sfu_mediasoup_worker_cpu_percent',
+    help: 'CPU usage of each mediasoup worker over the last sample interval',
+    labelNames: ['instance_id', 'worker_pid'],
+    registers: [register],
+  }),
+
+  mediasoupWorkerLoad: new client.Gauge({
+    name: 'sfu_mediasoup_worker_load_score',
+    help: 'Load score used to pick the worker for new routers',
+    labelNames: ['instance_id', 'worker_pid'],
+    registers: [register],
+  }),
+
   // Business metrics
   roomCreationRate: new client.Counter({
     name: 'sfu_room_creation_rate',
@@ -288,8 +309,21 @@ export class MetricsService {
     metrics.consumersActive.set({ instance_id: instanceId, kind: 'video' }, stats.consumers.video);
 
     // Mediasoup metrics
-    metrics.mediasoupWorkers.set({ instance_id: instanceId, status: 'active' }, 1); // Assuming 1 worker per instance
+    metrics.mediasoupWorkers.set({ instance_id: instanceId, status: 'active' }, stats.workers.length);
     metrics.mediasoupRouters.set({ instance_id: instanceId }, stats.rooms.active);
+
+    // Per-worker load; reset first so respawned workers do not leave stale series behind
+    metrics.mediasoupWorkerResources.reset();
+    metrics.mediasoupWorkerCpu.reset();
+    metrics.mediasoupWorkerLoad.reset();
+    for (const worker of stats.workers) {
+      const workerPid = String(worker.pid);
+      for (const resource of ['routers', 'transports', 'producers', 'consumers'] as const) {
+        metrics.mediasoupWorkerResources.set({ instance_id: instanceId, worker_pid: workerPid, resource }, worker[resource]);
+      }
+      metrics.mediasoupWorkerCpu.set({ instance_id: instanceId, worker_pid: workerPid }, worker.cpuPercent);
+      metrics.mediasoupWorkerLoad.set({ instance_id: instanceId, worker_pid: workerPid }, worker.loadScore);
+    }
   }
 
   private updateSystemMetrics(): void {
@@ -0,0 +1,87 @@
+import { User } from '@/types';
+import { logSystemEvent } from '@/utils/logger';
+
+// const logger = createLogger({ component: 'permission' });
+
+export type Permission =
+  | 'createRoom'
+  | 'publishAudio'
+  | 'publishVideo'
+  | 'publishScreen'
+  | 'publishData'
+  | 'subscribe'
+  | 'chat'
+  | 'moderate'
+  | 'record';
+
+export type PermissionMatrix = Record<User['role'], ReadonlyArray<Permission>>;
+
+const ALL_PERMISSIONS: ReadonlyArray<Permission> = [
+  'createRoom',
+  'publishAudio',
+  'publishVideo',
+  'publishScreen',
+  'publishData',
+  'subscribe',
+  'chat',
+  'moderate',
+  'record',
+];
+
+const PARTICIPANT_PERMISSIONS: ReadonlyArray<Permission> = [
+  'publishAudio',
+  'publishVideo',
+  'publishScreen',
+  'publishData',
+  'subscribe',
+  'chat',
+];
+
+// What each role may do unless the room policy's `permissions` replaces the list for it
+export const DEFAULT_PERMISSIONS: PermissionMatrix = {
+  student: PARTICIPANT_PERMISSIONS,
+  parent: PARTICIPANT_PERMISSIONS,
+  teacher: ALL_PERMISSIONS,
+  staff: ALL_PERMISSIONS,
+  super_admin: ALL_PERMISSIONS,
+};
+
+export class PermissionService {
+  private defaults = new Map<User['role'], ReadonlySet<Permission>>(
+    (Object.keys(DEFAULT_PERMISSIONS) as Array<User['role']>)
+      .map(role => [role, new Set(DEFAULT_PERMISSIONS[role])])
+  );
+
+  // Permissions of a role in a room. Unknown permission names in the policy are dropped.
+  resolve(role: User['role'], policy?: any, roomId?: string): ReadonlySet<Permission> {
+    const override: unknown = policy?.permissions?.[role];
+    if (!Array.isArray(override)) {
+      return this.defaults.get(role) ?? new Set();
+    }
+
+    const permissions = new Set<Permission>();
+    for (const permission of override) {
+      if (ALL_PERMISSIONS.includes(permission)) {
+        permissions.add(permission);
+      } else {
+        logSystemEvent('warn', 'Ignoring unknown permission in room policy', 'permission', {
+          roomId,
+          role,
+          permission,
+        });
+      }
+    }
+    return permissions;
+  }
+
+  // Screen shares are video producers tagged by the client
+  getPublishPermission(kind: 'audio' | 'video', appData?: any): Permission {
+    if (appData?.source === 'screen') {
+      return 'publishScreen';
+    }
+    return kind === 'audio' ? 'publishAudio' : 'publishVideo';
+  }
+}
+
+// Singleton instance
+export const permissionService = new PermissionService();
@@ -0,0 +1,408 @@
+import { spawn, ChildProcess } from 'child_process';
+import { v4 as uuidv4 } from 'uuid';
+import { types as mediasoupTypes } from 'mediasoup';
+import path from 'path';
+import fs from 'fs';
+import { config } from '@/config';
+import { Room, Recording, RecordingTrack, ProducerInfo } from '@/types';
+import { mediasoupService } from './mediasoup';
+import { webhookService } from './webhook';
+import { logRoomEvent } from '@/utils/logger';
+import { createRoomError, ERROR_CODES } from '@/utils/errors';
+
+// const logger = createLogger({ component: 'recording' });
+
+export interface RecordingResult {
+  recording: Recording;
+  stoppedAt: Date;
+  duration: number;
+  files: string[];
+}
+
+export class RecordingService {
+  private recordings = new Map<string, Recording>();
+  private usedPorts = new Set<number>();
+
+  isRecording(roomId: string): boolean {
+    return this.recordings.has(roomId);
+  }
+
+  getRecording(roomId: string): Recording | undefined {
+    return this.recordings.get(roomId);
+  }
+
+  async startRecording(room: Room, startedBy: string): Promise<Recording> {
+    if (this.recordings.has(room.id)) {
+      throw createRoomError(ERROR_CODES.RECORDING_ALREADY_ACTIVE, 'Room is already being recorded', room.id);
+    }
+
+    if (!room.router) {
+      throw createRoomError(ERROR_CODES.ROUTER_NOT_FOUND, 'Router not found', room.id);
+    }
+
+    const recordingId = uuidv4();
+    // Room IDs come from Django and may contain anything, keep them out of the path
+    const directory = path.join(
+      config.recording.directory,
+      room.id.replace(/[^a-zA-Z0-9_-]/g, '_'),
+      recordingId
+    );
+
+    try {
+      await fs.promises.mkdir(directory, { recursive: true });
+    } catch (error) {
+      logRoomEvent('error', 'Failed to create recording directory', room.id, undefined, {
+        error: error instanceof Error ? error.message : String(error),
+        directory,
+      });
+      throw createRoomError(ERROR_CODES.RECORDING_ERROR, 'Failed to create recording directory', room.id);
+    }
+
+    const recording: Recording = {
+      id: recordingId,
+      roomId: room.id,
+      startedBy,
+      startedAt: new Date(),
+      directory,
+      tracks: new Map(),
+      files: [],
+    };
+
+    this.recordings.set(room.id, recording);
+
+    for (const participant of room.participants.values()) {
+      for (const producerInfo of participant.producers.values()) {
+        await this.addProducer(room, participant.id, producerInfo);
+      }
+    }
+
+    logRoomEvent('info', 'Recording started', room.id, undefined, {
+      recordingId,
+      startedBy,
+      directory,
+      trackCount: recording.tracks.size,
+    });
+
+    try {
+      await webhookService.sendRecordingStarted(room.id, recordingId, recording.startedAt.toISOString());
+    } catch (error) {
+      logRoomEvent('warn', 'Failed to send recording started webhook', room.id, undefined, {
+        error: error instanceof Error ? error.message : String(error),
+        recordingId,
+      });
+    }
+
+    return recording;
+  }
+
+  async addProducer(room: Room, participantId: string, producerInfo: ProducerInfo): Promise<void> {
+    const recording = this.recordings.get(room.id);
+    if (!recording || recording.tracks.has(producerInfo.id) || !room.router) {
+      return;
+    }
+
+    try {
+      const track = await this.startTrack(recording, room.router, participantId, producerInfo);
+      recording.tracks.set(producerInfo.id, track);
+      recording.files.push(track.filePath);
+
+      logRoomEvent('info', 'Recording track started', room.id, participantId, {
+        recordingId: recording.id,
+        producerId: producerInfo.id,
+        kind: producerInfo.kind,
+        filePath: track.filePath,
+      });
+    } catch (error) {
+      logRoomEvent('error', 'Failed to start recording track', room.id, participantId, {
+        error: error instanceof Error ? error.message : String(error),
+        recordingId: recording.id,
+        producerId: producerInfo.id,
+      });
+    }
+  }
+
+  async stopRecording(roomId: string): Promise<RecordingResult> {
+    const recording = this.recordings.get(roomId);
+    if (!recording) {
+      throw createRoomError(ERROR_CODES.RECORDING_NOT_ACTIVE, 'Room is not being recorded', roomId);
+    }
+
+    this.recordings.delete(roomId);
+
+    await Promise.all(Array.from(recording.tracks.values()).map(track => this.stopTrack(recording, track)));
+
+    const stoppedAt = new Date();
+    const duration = Math.round((stoppedAt.getTime() - recording.startedAt.getTime()) / 1000);
+
+    logRoomEvent('info', 'Recording stopped', roomId, undefined, {
+      recordingId: recording.id,
+      duration,
+      fileCount: recording.files.length,
+    });
+
+    try {
+      await webhookService.sendRecordingStopped(roomId, recording.id, stoppedAt.toISOString(), duration);
+    } catch (error) {
+      logRoomEvent('warn', 'Failed to send recording stopped webhook', roomId, undefined, {
+        error: error instanceof Error ? error.message : String(error),
+        recordingId: recording.id,
+      });
+    }
+
+    return { recording, stoppedAt, duration, files: [...recording.files] };
+  }
+
+  async stopAll(): Promise<void> {
+    for (const roomId of Array.from(this.recordings.keys())) {
+      try {
+        await this.stopRecording(roomId);
+      } catch (error) {
+        logRoomEvent('error', 'Failed to stop recording', roomId, undefined, {
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+  }
+
+  private async startTrack(
+    recording: Recording,
+    router: mediasoupTypes.Router,
+    participantId: string,
+    producerInfo: ProducerInfo
+  ): Promise<RecordingTrack> {
+    const transport = await mediasoupService.createPlainTransport(router, {
+      recordingId: recording.id,
+      producerId: producerInfo.id,
+    });
+
+    const [rtpPort, rtcpPort] = this.allocatePorts();
+
+    try {
+      // The recorder consumes with the router's own capabilities so any codec the room accepts can be written
+      const consumer = await mediasoupService.createConsumer(
+        router,
+        transport,
+        producerInfo.id,
+        router.rtpCapabilities,
+        { recordingId: recording.id, participantId }
+      );
+
+      await transport.connect({
+        ip: config.recording.listenIp,
+        port: rtpPort,
+        rtcpPort,
+      });
+
+      const codec = consumer.rtpParameters.codecs[0];
+      if (!codec) {
+        throw new Error('Consumer has no negotiated codec');
+      }
+
+      const extension = codec.mimeType.toLowerCase() === 'video/h264' ? 'mkv' : 'webm';
+      const filePath = path.join(recording.directory, `${participantId}-${producerInfo.id}.${extension}`);
+      const sdp = this.buildSdp(consumer.kind, codec, rtpPort, rtcpPort);
+      const recorder = await this.spawnRecorder(recording, sdp, filePath, codec.mimeType);
+
+      const track: RecordingTrack = {
+        producerId: producerInfo.id,
+        participantId,
+        kind: consumer.kind,
+        filePath,
+        rtpPort,
+        rtcpPort,
+        transport,
+        consumer,
+        process: recorder,
+      };
+
+      consumer.on('producerclose', () => {
+        if (recording.tracks.get(producerInfo.id) === track) {
+          recording.tracks.delete(producerInfo.id);
+          this.stopTrack(recording, track).catch(error => {
+            logRoomEvent('error', 'Failed to stop recording track', recording.roomId, participantId, {
+              error: error instanceof Error ? error.message : String(error),
+              producerId: producerInfo.id,
+            });
+          });
+        }
+      });
+
+      // Give the recorder a moment to bind its sockets before media starts flowing
+      setTimeout(() => {
+        if (consumer.closed) {
+          return;
+        }
+        consumer.resume()
+          .then(() => (consumer.kind === 'video' ? consumer.requestKeyFrame() : undefined))
+          .catch(error => {
+            logRoomEvent('warn', 'Failed to resume recording consumer', recording.roomId, participantId, {
+              error: error instanceof Error ? error.message : String(error),
+              consumerId: consumer.id,
+            });
+          });
+      }, 1000);
+
+      return track;
+    } catch (error) {
+      transport.close();
+      this.releasePorts(rtpPort, rtcpPort);
+      throw error;
+    }
+  }
+
+  private async stopTrack(recording: Recording, track: RecordingTrack): Promise<void> {
+    track.consumer.close();
+    track.transport.close();
+
+    await new Promise<void>((resolve) => {
+      if (track.process.exitCode !== null || track.process.signalCode !== null) {
+        resolve();
+        return;
+      }
+
+      const killTimer = setTimeout(() => {
+        logRoomEvent('warn', 'Recorder did not exit in time, killing it', recording.roomId, track.participantId, {
+          recordingId: recording.id,
+          producerId: track.producerId,
+        });
+        track.process.kill('SIGKILL');
+      }, 5000);
+
+      track.process.once('exit', () => {
+        clearTimeout(killTimer);
+        resolve();
+      });
+
+      // Both ffmpeg and gst-launch (with -e) finalize the container on SIGINT
+      track.process.kill('SIGINT');
+    });
+
+    this.releasePorts(track.rtpPort, track.rtcpPort);
+
+    logRoomEvent('info', 'Recording track stopped', recording.roomId, track.participantId, {
+      recordingId: recording.id,
+      producerId: track.producerId,
+      filePath: track.filePath,
+    });
+  }
+
+  private async spawnRecorder(recording: Recording, sdp: string, filePath: string, mimeType: string): Promise<ChildProcess> {
+    let recorder: ChildProcess;
+
+    if (config.recording.process === 'gstreamer') {
+      const sdpPath = `${filePath}.sdp`;
+      await fs.promises.writeFile(sdpPath, sdp);
+
+      recorder = spawn(config.recording.gstreamerPath, [
+        '-e',
+        'filesrc', `location=${sdpPath}`, '!',
+        'sdpdemux', 'timeout=0', '!',
+        'queue', '!',
+        ...this.getGstreamerElements(mimeType),
+        'filesink', `location=${filePath}`,
+      ], { stdio: ['ignore', 'ignore', 'pipe'] });
+    } else {
+      recorder = spawn(config.recording.ffmpegPath, [
+        '-loglevel', 'warning',
+        '-protocol_whitelist', 'pipe,udp,rtp',
+        '-fflags', '+genpts',
+        '-f', 'sdp',
+        '-i', 'pipe:0',
+        '-map', '0',
+        '-c', 'copy',
+        '-y', filePath,
+      ], { stdio: ['pipe', 'ignore', 'pipe'] });
+
+      recorder.stdin?.end(sdp);
+    }
+
+    recorder.stderr?.on('data', (chunk: Buffer) => {
+      logRoomEvent('warn', 'Recorder output', recording.roomId, undefined, {
+        filePath,
+        output: chunk.toString().trim(),
+      });
+    });
+
+    recorder.on('error', (error) => {
+      logRoomEvent('error', 'Recorder process error', recording.roomId, undefined, {
+        error: error.message,
+        filePath,
+      });
+    });
+
+    recorder.on('exit', (code, signal) => {
+      logRoomEvent('info', 'Recorder process exited', recording.roomId, undefined, {
+        filePath,
+        code,
+        signal,
+      });
+    });
+
+    return recorder;
+  }
+
+  private getGstreamerElements(mimeType: string): string[] {
+    switch (mimeType.toLowerCase()) {
+      case 'audio/opus':
+        return ['rtpopusdepay', '!', 'opusparse', '!', 'webmmux', '!'];
+      case 'video/vp8':
+        return ['rtpvp8depay', '!', 'webmmux', '!'];
+      case 'video/vp9':
+        return ['rtpvp9depay', '!', 'webmmux', '!'];
+      case 'video/h264':
+        return ['rtph264depay', '!', 'h264parse', '!', 'matroskamux', '!'];
+      default:
+        throw createRoomError(ERROR_CODES.RECORDING_ERROR, `Unsupported codec for recording: ${mimeType}`);
+    }
+  }
+
+  private buildSdp(
+    kind: 'audio' | 'video',
+    codec: mediasoupTypes.RtpCodecParameters,
+    rtpPort: number,
+    rtcpPort: number
+  ): string {
+    const ip = config.recording.listenIp;
+    const encodingName = codec.mimeType.split('/')[1];
+    const lines = [
+      'v=0',
+      `o=- 0 0 IN IP4 ${ip}`,
+      's=sfu-recording',
+      `c=IN IP4 ${ip}`,
+      't=0 0',
+      `m=${kind} ${rtpPort} RTP/AVPF ${codec.payloadType}`,
+      `a=rtcp:${rtcpPort}`,
+      `a=rtpmap:${codec.payloadType} ${encodingName}/${codec.clockRate}${codec.channels ? `/${codec.channels}` : ''}`,
+    ];
+
+    const parameters = Object.entries(codec.parameters || {});
+    if (parameters.length > 0) {
+      lines.push(`a=fmtp:${codec.payloadType} ${parameters.map(([key, value]) => `${key}=${value}`).join(';')}`);
+    }
+
+    lines.push('a=sendonly', '');
+    return lines.join('\n');
+  }
+
+  private allocatePorts(): [number, number] {
+    // RTP on an even port, RTCP on the next odd one
+    const start = config.recording.rtpMinPort + (config.recording.rtpMinPort % 2);
+    for (let port = start; port + 1 <= config.recording.rtpMaxPort; port += 2) {
+      if (!this.usedPorts.has(port) && !this.usedPorts.has(port + 1)) {
+        this.usedPorts.add(port);
+        this.usedPorts.add(port + 1);
+        return [port, port + 1];
+      }
+    }
+
+    throw createRoomError(ERROR_CODES.RESOURCE_EXHAUSTED, 'No free recording ports available');
+  }
+
+  private releasePorts(rtpPort: number, rtcpPort: number): void {
+    this.usedPorts.delete(rtpPort);
+    this.usedPorts.delete(rtcpPort);
+  }
+}
+
+// Singleton instance
+export const recordingService = new RecordingService();
@@ -1,15 +1,34 @@
 import Redis from 'ioredis';
+import { randomUUID } from 'crypto';
 import { config } from '@/config';
 import { logSystemEvent } from '@/utils/logger';
 import { createSystemError, ERROR_CODES } from '@/utils/errors';
 
 // const logger = createLogger({ component: 'redis' });
 
+const COMPARE_AND_DELETE_SCRIPT = `
+  if redis.call('get', KEYS[1]) == ARGV[1] then
+    return redis.call('del', KEYS[1])
+  end
+  return 0
+`;
+
+// Sets or refreshes the value unless another one holds the key
+const CLAIM_SCRIPT = `
+  local current = redis.call('get', KEYS[1])
+  if not current or current == ARGV[1] then
+    redis.call('set', KEYS[1], ARGV[1], 'EX', ARGV[2])
+    return 1
+  end
+  return 0
+`;
+
 export class RedisService {
   private client: Redis;
   private subscriber: Redis;
   private publisher: Redis;
   private isConnected = false;
+  private channelHandlers = new Map<string, (message: string) => void>();
 
   constructor() {
     // Main client for general operations
@@ -99,6 +118,11 @@ export class RedisService {
       logSystemEvent('error', 'Redis subscriber error', 'redis', { error: error.message });
     });
 
+    // One listener dispatches to every subscribed channel
+    this.subscriber.on('message', (channel, message) => {
+      this.channelHandlers.get(channel)?.(message);
+    });
+
     // Publisher events
     this.publisher.on('connect', () => {
       logSystemEvent('info', 'Redis publisher connected', 'redis');
@@ -346,12 +370,8 @@ export class RedisService {
 
   async subscribe(channel: string, callback: (message: string) => void): Promise<void> {
     try {
+      this.channelHandlers.set(channel, callback);
       await this.subscriber.subscribe(channel);
-      this.subscriber.on('message', (receivedChannel, message) => {
-        if (receivedChannel === channel) {
-          callback(message);
-        }
-      });
     } catch (error) {
       logSystemEvent('error', 'Failed to subscribe to Redis channel', 'redis', {
         error: error instanceof Error ? error.message : String(error),
@@ -363,6 +383,7 @@ export class RedisService {
 
   async unsubscribe(channel: string): Promise<void> {
     try {
+      this.channelHandlers.delete(channel);
       await this.subscriber.unsubscribe(channel);
     } catch (error) {
       logSystemEvent('error', 'Failed to unsubscribe from Redis channel', 'redis', {
@@ -388,6 +409,16 @@ export class RedisService {
   async deleteRoomState(roomId: string): Promise<void> {
     const key = `room:${roomId}`;
     await this.del(key);
+    await this.del(`${key}:participants`);
+    await this.del(`${key}:participant_states`);
+  }
+
+  // Extend the TTL of a room's state, membership set and participant states
+  async refreshRoomState(roomId: string, ttlSeconds: number = 3600): Promise<void> {
+    const key = `room:${roomId}`;
+    await this.expire(key, ttlSeconds);
+    await this.expire(`${key}:participants`, ttlSeconds);
+    await this.expire(`${key}:participant_states`, ttlSeconds);
   }
 
   async addParticipantToRoom(roomId: string, participantId: string): Promise<void> {
@@ -410,22 +441,50 @@ export class RedisService {
     return await this.sismember(key, participantId);
   }
 
+  async setParticipantState(roomId: string, participantId: string, state: any): Promise<void> {
+    const key = `room:${roomId}:participant_states`;
+    await this.hset(key, participantId, JSON.stringify(state));
+  }
+
+  async deleteParticipantState(roomId: string, participantId: string): Promise<void> {
+    const key = `room:${roomId}:participant_states`;
+    await this.hdel(key, participantId);
+  }
+
+  async getParticipantStates(roomId: string): Promise<any[]> {
+    const key = `room:${roomId}:participant_states`;
+    const states = await this.hgetall(key);
+    return Object.values(states).map(state => JSON.parse(state));
+  }
+
   // Instance coordination
-  async registerInstance(instanceId: string, metadata: any): Promise<void> {
+  async registerInstance(instanceId: string, metadata: any, ttlSeconds: number = 60): Promise<void> {
     const key = `instance:${instanceId}`;
     await this.set(key, JSON.stringify({
       ...metadata,
       lastSeen: Date.now(),
-    }), 60); // 60 seconds TTL
+    }), ttlSeconds);
+  }
+
+  async deregisterInstance(instanceId: string): Promise<void> {
+    const key = `instance:${instanceId}`;
+    await this.del(key);
+  }
+
+  async getInstance(instanceId: string): Promise<any | null> {
+    const key = `instance:${instanceId}`;
+    const data = await this.get(key);
+    return data ? JSON.parse(data) : null;
   }
 
   async getInstances(): Promise<any[]> {
-    const pattern = 'instance:*';
+    // KEYS patterns and results are not covered by the client key prefix
+    const pattern = `${config.redis.keyPrefix}instance:*`;
     const keys = await this.client.keys(pattern);
     const instances = [];
 
     for (const key of keys) {
-      const data = await this.get(key);
+      const data = await this.get(key.slice(config.redis.keyPrefix.length));
       if (data) {
         instances.push(JSON.parse(data));
       }
@@ -434,6 +493,127 @@ export class RedisService {
     return instances;
   }
 
+  // Room ownership: each room is hosted by exactly one instance
+  async setRoomOwner(roomId: string, instanceId: string, ttlSeconds: number = 3600): Promise<void> {
+    const key = `room:${roomId}:owner`;
+    await this.set(key, instanceId, ttlSeconds);
+  }
+
+  // False when another instance owns the room
+  async claimRoomOwner(roomId: string, instanceId: string, ttlSeconds: number): Promise<boolean> {
+    const key = `room:${roomId}:owner`;
+
+    try {
+      const result = await this.client.eval(CLAIM_SCRIPT, 1, key, instanceId, ttlSeconds);
+      return result === 1;
+    } catch (error) {
+      logSystemEvent('error', 'Failed to claim room owner', 'redis', {
+        error: error instanceof Error ? error.message : String(error),
+        roomId,
+      });
+      throw createSystemError(ERROR_CODES.REDIS_ERROR, 'Failed to claim room owner');
+    }
+  }
+
+  async getRoomOwner(roomId: string): Promise<string | null> {
+    const key = `room:${roomId}:owner`;
+    return await this.get(key);
+  }
+
+  // Only the owning instance may give a room up
+  async releaseRoomOwner(roomId: string, instanceId: string): Promise<boolean> {
+    const key = `room:${roomId}:owner`;
+    return await this.compareAndDelete(key, instanceId);
+  }
+
+  // Connection tickets are single use, so reading one deletes it
+  async setConnectionTicket(ticketHash: string, ticket: any, ttlSeconds: number): Promise<void> {
+    const key = `ticket:${ticketHash}`;
+    await this.set(key, JSON.stringify(ticket), ttlSeconds);
+  }
+
+  async takeConnectionTicket(ticketHash: string): Promise<any | null> {
+    const key = `ticket:${ticketHash}`;
+
+    try {
+      const value = await this.client.getdel(key);
+      return value ? JSON.parse(value) : null;
+    } catch (error) {
+      logSystemEvent('error', 'Failed to take connection ticket', 'redis', {
+        error: error instanceof Error ? error.message : String(error),
+      });
+      throw createSystemError(ERROR_CODES.REDIS_ERROR, 'Failed to take connection ticket');
+    }
+  }
+
+  // Revoked JWT IDs, kept until the token would have expired anyway
+  async revokeToken(jti: string, ttlSeconds: number): Promise<void> {
+    const key = `revoked:${jti}`;
+    await this.set(key, '1', ttlSeconds);
+  }
+
+  async isTokenRevoked(jti: string): Promise<boolean> {
+    const key = `revoked:${jti}`;
+    return await this.exists(key);
+  }
+
+  // Django webhook IDs already handled, false when the ID was seen before
+  async markWebhookReceived(id: string, ttlSeconds: number): Promise<boolean> {
+    const key = `webhook:received:${id}`;
+
+    try {
+      const result = await this.client.set(key, '1', 'EX', ttlSeconds, 'NX');
+      return result === 'OK';
+    } catch (error) {
+      logSystemEvent('error', 'Failed to mark webhook received', 'redis', {
+        error: error instanceof Error ? error.message : String(error),
+        key,
+      });
+      throw createSystemError(ERROR_CODES.REDIS_ERROR, 'Failed to mark webhook received');
+    }
+  }
+
+  // Lets Django retry a webhook that failed while being handled
+  async forgetWebhookReceived(id: string): Promise<void> {
+    const key = `webhook:received:${id}`;
+    await this.del(key);
+  }
+
+  // Distributed locks: SET NX with an expiry, released only by the holder's token
+  async acquireLock(name: string, ttlMs: number): Promise<string | null> {
+    const key = `lock:${name}`;
+    const token = randomUUID();
+
+    try {
+      const result = await this.client.set(key, token, 'PX', ttlMs, 'NX');
+      return result === 'OK' ? token : null;
+    } catch (error) {
+      logSystemEvent('error', 'Failed to acquire Redis lock', 'redis', {
+        error: error instanceof Error ? error.message : String(error),
+        key,
+      });
+      throw createSystemError(ERROR_CODES.REDIS_ERROR, 'Failed to acquire Redis lock');
+    }
+  }
+
+  async releaseLock(name: string, token: string): Promise<boolean> {
+    const key = `lock:${name}`;
+    return await this.compareAndDelete(key, token);
+  }
+
+  private async compareAndDelete(key: string, expected: string): Promise<boolean> {
+    try {
+      const result = await this.client.eval(COMPARE_AND_DELETE_SCRIPT, 1, key, expected);
+      return result === 1;
+    } catch (error) {
+      logSystemEvent('error', 'Failed to compare and delete Redis key', 'redis', {
+        error: error instanceof Error ? error.message : String(error),
+        key,
+      });
+      throw createSystemError(ERROR_CODES.REDIS_ERROR, 'Failed to compare and delete Redis key');
+    }
+  }
+
   // Health check
   async ping(): Promise<boolean> {
     try {
@@ -0,0 +1,134 @@
+import { config } from '@/config';
+import { SFUError } from '@/types';
+import { redisService } from './redis';
+import { logSystemEvent } from '@/utils/logger';
+import { ERROR_CODES } from '@/utils/errors';
+
+// const logger = createLogger({ component: 'revocation' });
+
+// Used when Django does not say when the token expires, longer than any access token lives
+const DEFAULT_REVOCATION_TTL_SECONDS = 24 * 60 * 60;
+
+export type RevocationHandler = (jti: string) => void;
+
+interface RevocationEnvelope {
+  instanceId: string;
+  jti: string;
+}
+
+// Revoked JWT IDs live in Redis so every instance rejects them. Revocations are
+// also published, so each instance can drop the connections it holds for them.
+export class RevocationService {
+  private handlers: RevocationHandler[] = [];
+  private subscribed = false;
+
+  // Register a callback run for every revoked token, on every instance
+  onRevoke(handler: RevocationHandler): void {
+    this.handlers.push(handler);
+  }
+
+  async start(): Promise<void> {
+    if (this.subscribed || !redisService.isHealthy()) {
+      return;
+    }
+
+    try {
+      await redisService.subscribe(this.getChannel(), (payload) => this.handleMessage(payload));
+      this.subscribed = true;
+    } catch (error) {
+      logSystemEvent('warn', 'Failed to subscribe to token revocations', 'revocation', {
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  async stop(): Promise<void> {
+    if (!this.subscribed) {
+      return;
+    }
+
+    this.subscribed = false;
+    try {
+      await redisService.unsubscribe(this.getChannel());
+    } catch {
+      // Redis is going away with the instance
+    }
+  }
+
+  // exp is the token's expiry in seconds since the epoch
+  async revoke(jti: string, exp?: number): Promise<void> {
+    if (!redisService.isHealthy()) {
+      throw new SFUError(ERROR_CODES.SERVICE_UNAVAILABLE, 'Token revocation is unavailable');
+    }
+
+    const ttlSeconds = exp !== undefined
+      ? exp - Math.floor(Date.now() / 1000)
+      : DEFAULT_REVOCATION_TTL_SECONDS;
+
+    // An expired token is rejected anyway, only its connections need closing
+    if (ttlSeconds > 0) {
+      await redisService.revokeToken(jti, ttlSeconds);
+    }
+
+    logSystemEvent('info', 'Token revoked', 'revocation', {
+      jti,
+      ...(exp !== undefined && { expiresAt: new Date(exp * 1000).toISOString() }),
+    });
+
+    this.notify(jti);
+
+    try {
+      const envelope: RevocationEnvelope = { instanceId: config.cluster.instanceId, jti };
+      await redisService.publish(this.getChannel(), JSON.stringify(envelope));
+    } catch (error) {
+      logSystemEvent('warn', 'Failed to publish token revocation', 'revocation', {
+        jti,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  // Without Redis there is no revocation list to check, tokens are then only checked for expiry
+  async isRevoked(jti: string | undefined): Promise<boolean> {
+    if (!jti || !redisService.isHealthy()) {
+      return false;
+    }
+    return await redisService.isTokenRevoked(jti);
+  }
+
+  private handleMessage(payload: string): void {
+    try {
+      const envelope = JSON.parse(payload) as RevocationEnvelope;
+      // Our own revocations were handled when they were made
+      if (envelope.instanceId === config.cluster.instanceId) {
+        return;
+      }
+      this.notify(envelope.jti);
+    } catch (error) {
+      logSystemEvent('warn', 'Ignoring malformed token revocation', 'revocation', {
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  private notify(jti: string): void {
+    for (const handler of this.handlers) {
+      try {
+        handler(jti);
+      } catch (error) {
+        logSystemEvent('error', 'Revocation handler failed', 'revocation', {
+          jti,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+  }
+
+  // Pub/sub channels are not covered by the client key prefix
+  private getChannel(): string {
+    return `${config.redis.keyPrefix}token-revocations`;
+  }
+}
+
+// Singleton instance
+export const revocationService = new RevocationService();
@@ -1,25 +1,66 @@
 import { v4 as uuidv4 } from 'uuid';
 import { types as mediasoupTypes } from 'mediasoup';
-import { Room, Participant, ProducerInfo, ConsumerInfo, ParticipantInfo } from '@/types';
+import { Room, RoomPolicy, Participant, ProducerInfo, ConsumerInfo, DataProducerInfo, DataConsumerInfo, ParticipantInfo, Recording, LobbyEntry, LobbyEntryInfo, User, RoomRecord, ParticipantRecord } from '@/types';
 import { mediasoupService } from './mediasoup';
-import { logRoomEvent } from '@/utils/logger';
+import { recordingService, RecordingResult } from './recording';
+import { speakerService } from './speaker';
+import { chatService } from './chat';
+import { databaseService } from './database';
+import { clusterService } from './cluster';
+import { drainService } from './drain';
+import { authService } from './auth';
+import { logRoomEvent, logSystemEvent } from '@/utils/logger';
 import { createRoomError, createParticipantError, createProducerError, createConsumerError, ERROR_CODES } from '@/utils/errors';
 import { config } from '@/config';
 
 // const logger = createLogger({ component: 'room' });
 
+// participantIds lost the listed transports and must rebuild them
+export type RouterResetHandler = (room: Room, participantIds: string[], transports: Array<'send' | 'recv'>) => void;
+
+// Producers the new policy no longer allows were closed, keyed by participant ID
+export type PolicyChangeHandler = (room: Room, closedProducers: Map<string, ProducerInfo[]>) => void;
+
 export class RoomService {
   private rooms = new Map<string, Room>();
   private participants = new Map<string, Participant>();
+  private lobbies = new Map<string, Map<string, LobbyEntry>>();
+  private routerResetHandlers: RouterResetHandler[] = [];
+  private policyChangeHandlers: PolicyChangeHandler[] = [];
+  private reconcileInterval?: NodeJS.Timeout;
+  private policyRefreshInterval?: NodeJS.Timeout;
+
+  constructor() {
+    mediasoupService.onWorkerDied(() => this.recreateClosedRouters());
+  }
+
+  // Register a callback run for each room whose router was recreated after a worker died
+  onRouterReset(handler: RouterResetHandler): void {
+    this.routerResetHandlers.push(handler);
+  }
+
+  // Register a callback run after a room's policy changed and was applied
+  onPolicyChange(handler: PolicyChangeHandler): void {
+    this.policyChangeHandlers.push(handler);
+  }
 
   async createRoom(
     name: string,
     description?: string,
-    maxParticipants: number = 100,
-    instanceId: string = 'sfu-001'
+    maxParticipants?: number,
+    roomId: string = uuidv4(),
+    createdBy?: string
   ): Promise<Room> {
+    // Running rooms may finish, new ones belong on another instance
+    if (drainService.isDraining()) {
+      throw createRoomError(ERROR_CODES.SERVER_DRAINING, 'Server is draining', roomId);
+    }
+
+    // Resolved once here, later changes arrive through refreshRoomPolicy
+    const policy = await authService.getRoomPolicy(roomId);
+    const requestedMaxParticipants = maxParticipants ?? policy.maxParticipants;
+
     try {
-      const roomId = uuidv4();
       const worker = mediasoupService.getWorker();
       const router = await mediasoupService.createRouter(worker);
 
@@ -27,22 +68,38 @@ export class RoomService {
         id: roomId,
         name,
         ...(description && { description }),
-        maxParticipants,
+        maxParticipants: Math.min(requestedMaxParticipants, policy.maxParticipants),
+        requestedMaxParticipants,
         isActive: true,
         createdAt: new Date(),
         updatedAt: new Date(),
         participants: new Map(),
         router,
+        consumerRouters: new Map(),
         instanceId: config.cluster.instanceId,
+        ...(createdBy && { createdBy }),
+        policy,
       };
 
       this.rooms.set(roomId, room);
 
+      // Speaker detection is a nice-to-have, a room without it is still usable
+      try {
+        await speakerService.attachRoom(room);
+      } catch (error) {
+        logRoomEvent('warn', 'Failed to attach speaker observers', roomId, undefined, {
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+
+      await this.persist('room', roomId, undefined, () => databaseService.createRoom(this.toRoomRecord(room)));
+      await clusterService.registerRoom(room);
+
       logRoomEvent('info', 'Room created', roomId, undefined, {
         name,
         description,
-        maxParticipants,
-        instanceId,
+        maxParticipants: room.maxParticipants,
+        instanceId: room.instanceId,
       });
 
       return room;
@@ -66,6 +123,16 @@ export class RoomService {
     return Array.from(this.rooms.values());
   }
 
+  // The running room's policy, or what the room would get if it were created now
+  async getRoomPolicy(roomId: string): Promise<RoomPolicy> {
+    return this.rooms.get(roomId)?.policy ?? await authService.getRoomPolicy(roomId);
+  }
+
+  // Active rooms on this instance that the user created
+  getRoomsCreatedBy(userId: string): Room[] {
+    return this.getRooms().filter(room => room.isActive && room.createdBy === userId);
+  }
+
   async deleteRoom(roomId: string): Promise<void> {
     const room = this.rooms.get(roomId);
     if (!room) {
@@ -73,17 +140,33 @@ export class RoomService {
     }
 
     try {
+      // Finalize any recording before its producers go away
+      if (recordingService.isRecording(roomId)) {
+        await recordingService.stopRecording(roomId);
+      }
+
       // Close all participants
       for (const participant of room.participants.values()) {
         await this.leaveRoom(roomId, participant.id);
       }
 
-      // Close router
+      speakerService.detachRoom(room);
+      chatService.clearRoom(roomId);
+
+      // Close routers
+      for (const consumerRouter of room.consumerRouters.values()) {
+        consumerRouter.router.close();
+      }
+      room.consumerRouters.clear();
       if (room.router) {
         room.router.close();
       }
 
       this.rooms.delete(roomId);
+      await clusterService.unregisterRoom(room);
+
+      // The row is kept for its event history
+      await this.persist('room deletion', roomId, undefined, () => databaseService.updateRoom(roomId, { is_active: false }));
 
       logRoomEvent('info', 'Room deleted', roomId, undefined, {
         participantCount: room.participants.size,
@@ -103,12 +186,16 @@ export class RoomService {
     userId: string,
     user: any,
     displayName: string,
-    metadata?: Record<string, any>
+    metadata?: Record<string, any>,
+    deviceId?: string,
+    maxParticipants?: number // Cap for the room if this join creates it, from the user's entitlements
   ): Promise<Participant> {
     let room = this.rooms.get(roomId);
     
     // Auto-create room if it doesn't exist
     if (!room) {
+      await clusterService.assertRoomAvailable(roomId);
+
       logRoomEvent('info', 'Auto-creating room for join request', roomId, undefined, {
         userId,
         displayName,
@@ -117,14 +204,9 @@ export class RoomService {
       room = await this.createRoom(
         `Session Room ${roomId}`,
         `Auto-created room for session ${roomId}`,
-        100, // default max participants
-        config.cluster.instanceId
+        maxParticipants,
+        roomId
       );
-      
-      // Update the room ID to match the requested roomId
-      this.rooms.delete(room.id);
-      room.id = roomId;
-      this.rooms.set(roomId, room);
     }
 
     // Reactivate inactive rooms when someone tries to join
@@ -134,20 +216,22 @@ export class RoomService {
         displayName,
       });
       room.isActive = true;
+      await this.persist('room reactivation', roomId, undefined, () => databaseService.updateRoom(roomId, { is_active: true }));
     }
 
     if (room.participants.size >= room.maxParticipants) {
       throw createRoomError(ERROR_CODES.ROOM_FULL, 'Room is full', roomId);
     }
 
-    // Check if participant already exists
-    const existingParticipant = Array.from(room.participants.values())
-      .find(p => p.userId === userId);
+    // Check if participant already exists on this device
+    const existingParticipant = this.getParticipantsByUserId(roomId, userId)
+      .find(p => p.deviceId === deviceId);
     
     if (existingParticipant) {
       // Instead of throwing an error, return the existing participant
       logRoomEvent('info', 'Participant already in room, returning existing', roomId, existingParticipant.id, {
         userId,
+        deviceId,
         displayName,
         participantCount: room.participants.size,
       });
@@ -166,6 +250,7 @@ export class RoomService {
         userId,
         user,
         roomId,
+        ...(deviceId && { deviceId }),
         displayName,
         isAudioEnabled: false,
         isVideoEnabled: false,
@@ -174,7 +259,10 @@ export class RoomService {
         joinedAt: new Date(),
         lastSeen: new Date(),
         producers: new Map(),
+        moderatorMutedMedia: new Set(),
         consumers: new Map(),
+        dataProducers: new Map(),
+        dataConsumers: new Map(),
         ...(metadata && { metadata }),
       };
 
@@ -182,6 +270,9 @@ export class RoomService {
       this.participants.set(participantId, participant);
       room.updatedAt = new Date();
 
+      await this.persist('participant', roomId, participantId, () => databaseService.createParticipant(this.toParticipantRecord(participant)));
+      await clusterService.addParticipant(room, participant);
+
       logRoomEvent('info', 'Participant joined room', roomId, participantId, {
         userId,
         displayName,
@@ -224,6 +315,14 @@ export class RoomService {
         consumerInfo.consumer.close();
       }
 
+      // Close data channels
+      for (const dataProducerInfo of participant.dataProducers.values()) {
+        dataProducerInfo.dataProducer.close();
+      }
+      for (const dataConsumerInfo of participant.dataConsumers.values()) {
+        dataConsumerInfo.dataConsumer.close();
+      }
+
       // Close both transports
       if (participant.sendTransport) {
         participant.sendTransport.close();
@@ -237,6 +336,10 @@ export class RoomService {
       this.participants.delete(participantId);
       room.updatedAt = new Date();
 
+      this.releaseIdleConsumerRouters(room);
+
+      await this.persist('participant removal', roomId, participantId, () => databaseService.deleteParticipant(participantId));
+
       logRoomEvent('info', 'Participant left room', roomId, participantId, {
         userId: participant.userId,
         displayName: participant.displayName,
@@ -246,8 +349,11 @@ export class RoomService {
       // If room is empty, mark as inactive
       if (room.participants.size === 0) {
         room.isActive = false;
+        await this.persist('room deactivation', roomId, undefined, () => databaseService.updateRoom(roomId, { is_active: false }));
         logRoomEvent('info', 'Room marked as inactive (no participants)', roomId);
       }
+
+      await clusterService.removeParticipant(room, participantId);
     } catch (error) {
       logRoomEvent('error', 'Failed to leave room', roomId, participantId, {
         error: error instanceof Error ? error.message : String(error),
@@ -263,12 +369,39 @@ export class RoomService {
     return this.participants.get(participantId);
   }
 
-  getParticipantByUserId(roomId: string, userId: string): Participant | undefined {
+  // Reconnecting participants keep their media on the server while their client is away
+  setParticipantReconnecting(participantId: string, reconnecting: boolean): void {
+    const participant = this.participants.get(participantId);
+    if (!participant) {
+      return;
+    }
+
+    if (reconnecting) {
+      participant.isReconnecting = true;
+    } else {
+      delete participant.isReconnecting;
+      participant.lastSeen = new Date();
+    }
+
+    logRoomEvent('info', reconnecting ? 'Participant reconnecting' : 'Participant resumed session', participant.roomId, participantId);
+  }
+
+  // Without a device ID any of the user's devices matches
+  getParticipantByUserId(roomId: string, userId: string, deviceId?: string): Participant | undefined {
+    const devices = this.getParticipantsByUserId(roomId, userId);
+    return deviceId === undefined
+      ? devices[0]
+      : devices.find(p => p.deviceId === deviceId);
+  }
+
+  // Every device the user has in the room, oldest first
+  getParticipantsByUserId(roomId: string, userId: string): Participant[] {
     const room = this.rooms.get(roomId);
-    if (!room) return undefined;
+    if (!room) return [];
 
     return Array.from(room.participants.values())
-      .find(p => p.userId === userId);
+      .filter(p => p.userId === userId)
+      .sort((a, b) => a.joinedAt.getTime() - b.joinedAt.getTime());
   }
 
   getProducerInfo(producerId: string): ProducerInfo | undefined {
@@ -310,10 +443,14 @@ export class RoomService {
     }
 
     try {
+      // Producers always live on the primary router, receivers may be spread out
+      const router = direction === 'send' ? room.router : await this.selectRecvRouter(room);
+
       const transport = await mediasoupService.createWebRtcTransport(
-        room.router,
+        router,
         direction,
-        sctpCapabilities
+        sctpCapabilities,
+        room.policy.maxBitrate
       );
 
       // Store transport based on direction
@@ -321,12 +458,18 @@ export class RoomService {
         participant.sendTransport = transport;
       } else {
         participant.recvTransport = transport;
+        if (router === room.router) {
+          delete participant.recvRouterId;
+        } else {
+          participant.recvRouterId = router.id;
+        }
       }
       participant.lastSeen = new Date();
 
       logRoomEvent('info', 'Transport created', roomId, participantId, {
         transportId: transport.id,
         direction,
+        routerId: router.id,
       });
 
       return transport;
@@ -362,6 +505,8 @@ export class RoomService {
       throw createParticipantError(ERROR_CODES.TRANSPORT_NOT_FOUND, 'Send transport not found', participantId, roomId);
     }
 
+    this.assertProducerAllowed(room, participant, kind, appData);
+
     try {
       const producer = await mediasoupService.createProducer(
         participant.sendTransport,
@@ -383,17 +528,20 @@ export class RoomService {
       participant.lastSeen = new Date();
 
       // Update participant state
-      if (kind === 'audio') {
-        participant.isAudioEnabled = true;
-      } else if (kind === 'video') {
-        participant.isVideoEnabled = true;
-      }
+      await this.updateMediaState(participant);
 
       logRoomEvent('info', 'Producer created', roomId, participantId, {
         producerId: producer.id,
         kind,
       });
 
+      // Late publishers are picked up by an active recording
+      if (recordingService.isRecording(roomId)) {
+        await recordingService.addProducer(room, participantId, producerInfo);
+      }
+
+      await speakerService.addProducer(room, participantId, producerInfo);
+
       return producerInfo;
     } catch (error) {
       logRoomEvent('error', 'Failed to create producer', roomId, participantId, {
@@ -431,8 +579,11 @@ export class RoomService {
       throw createRoomError(ERROR_CODES.ROUTER_NOT_FOUND, 'Router not found', roomId);
     }
 
+    // Receivers on a consumer router need the producer piped over first
+    const router = await this.getConsumerRouter(room, participant, { producerId });
+
     // Check if can consume
-    if (!mediasoupService.canConsume(room.router, producerId, rtpCapabilities)) {
+    if (!mediasoupService.canConsume(router, producerId, rtpCapabilities)) {
       throw createConsumerError(ERROR_CODES.CONSUMER_RTP_CAPABILITIES_INVALID, 'Cannot consume producer', undefined, roomId, {
         producerId,
       });
@@ -440,7 +591,7 @@ export class RoomService {
 
     try {
       const consumer = await mediasoupService.createConsumer(
-        room.router,
+        router,
         participant.recvTransport,
         producerId,
         rtpCapabilities,
@@ -478,6 +629,481 @@ export class RoomService {
     }
   }
 
+  async createDataProducer(
+    roomId: string,
+    participantId: string,
+    sctpStreamParameters: mediasoupTypes.SctpStreamParameters,
+    label?: string,
+    protocol?: string,
+    appData?: any
+  ): Promise<DataProducerInfo> {
+    const participant = this.getRoomParticipant(roomId, participantId);
+
+    if (!participant.sendTransport) {
+      throw createParticipantError(ERROR_CODES.TRANSPORT_NOT_FOUND, 'Send transport not found', participantId, roomId);
+    }
+
+    if (!participant.sendTransport.sctpParameters) {
+      throw createParticipantError(ERROR_CODES.TRANSPORT_SCTP_NOT_ENABLED, 'SCTP is not enabled on send transport', participantId, roomId);
+    }
+
+    try {
+      const dataProducer = await mediasoupService.createDataProducer(
+        participant.sendTransport,
+        sctpStreamParameters,
+        label,
+        protocol,
+        appData
+      );
+
+      const dataProducerInfo: DataProducerInfo = {
+        id: dataProducer.id,
+        label: dataProducer.label,
+        protocol: dataProducer.protocol,
+        ...(dataProducer.sctpStreamParameters && { sctpStreamParameters: dataProducer.sctpStreamParameters }),
+        appData,
+        dataProducer,
+      };
+
+      participant.dataProducers.set(dataProducer.id, dataProducerInfo);
+      participant.lastSeen = new Date();
+
+      logRoomEvent('info', 'Data producer created', roomId, participantId, {
+        dataProducerId: dataProducer.id,
+        label: dataProducer.label,
+      });
+
+      return dataProducerInfo;
+    } catch (error) {
+      logRoomEvent('error', 'Failed to create data producer', roomId, participantId, {
+        error: error instanceof Error ? error.message : String(error),
+      });
+      throw createProducerError(ERROR_CODES.INTERNAL_ERROR, 'Failed to create data producer', undefined, roomId, {
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  async createDataConsumer(
+    roomId: string,
+    participantId: string,
+    dataProducerId: string
+  ): Promise<DataConsumerInfo> {
+    const participant = this.getRoomParticipant(roomId, participantId);
+
+    if (!participant.recvTransport) {
+      throw createParticipantError(ERROR_CODES.TRANSPORT_NOT_FOUND, 'Receive transport not found', participantId, roomId);
+    }
+
+    if (!participant.recvTransport.sctpParameters) {
+      throw createParticipantError(ERROR_CODES.TRANSPORT_SCTP_NOT_ENABLED, 'SCTP is not enabled on receive transport', participantId, roomId);
+    }
+
+    // Only data producers of the same room can be consumed
+    const dataProducerInfo = this.getRoomParticipants(roomId)
+      .map(p => p.dataProducers.get(dataProducerId))
+      .find(info => info !== undefined);
+    if (!dataProducerInfo) {
+      throw createProducerError(ERROR_CODES.DATA_PRODUCER_NOT_FOUND, 'Data producer not found', dataProducerId, roomId);
+    }
+
+    try {
+      await this.getConsumerRouter(this.getRoom(roomId)!, participant, { dataProducerId });
+
+      const dataConsumer = await mediasoupService.createDataConsumer(
+        participant.recvTransport,
+        dataProducerId,
+        dataProducerInfo.appData
+      );
+
+      const dataConsumerInfo: DataConsumerInfo = {
+        id: dataConsumer.id,
+        dataProducerId,
+        label: dataConsumer.label,
+        protocol: dataConsumer.protocol,
+        ...(dataConsumer.sctpStreamParameters && { sctpStreamParameters: dataConsumer.sctpStreamParameters }),
+        appData: dataProducerInfo.appData,
+        dataConsumer,
+      };
+
+      participant.dataConsumers.set(dataConsumer.id, dataConsumerInfo);
+      participant.lastSeen = new Date();
+
+      // mediasoup closes the data consumer with its producer, drop it from the participant too
+      dataConsumer.on('dataproducerclose', () => {
+        participant.dataConsumers.delete(dataConsumer.id);
+      });
+
+      logRoomEvent('info', 'Data consumer created', roomId, participantId, {
+        dataConsumerId: dataConsumer.id,
+        dataProducerId,
+      });
+
+      return dataConsumerInfo;
+    } catch (error) {
+      logRoomEvent('error', 'Failed to create data consumer', roomId, participantId, {
+        error: error instanceof Error ? error.message : String(error),
+        dataProducerId,
+      });
+      throw createConsumerError(ERROR_CODES.INTERNAL_ERROR, 'Failed to create data consumer', undefined, roomId, {
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  // Large rooms: recv transports fill the primary router first, then spill over to
+  // consumer routers on other workers (one CPU core each) up to config.room.maxRouters.
+  private async selectRecvRouter(room: Room): Promise<mediasoupTypes.Router> {
+    const primary = room.router!;
+    const routers = [primary, ...Array.from(room.consumerRouters.values()).map(c => c.router)];
+
+    const recvCounts = new Map<string, number>(routers.map(router => [router.id, 0]));
+    for (const participant of room.participants.values()) {
+      if (participant.recvTransport && !participant.recvTransport.closed) {
+        const routerId = participant.recvRouterId ?? primary.id;
+        recvCounts.set(routerId, (recvCounts.get(routerId) ?? 0) + 1);
+      }
+    }
+
+    const available = routers.find(router => (recvCounts.get(router.id) ?? 0) < config.room.recvTransportsPerRouter);
+    if (available) {
+      return available;
+    }
+
+    if (routers.length < config.room.maxRouters) {
+      const worker = mediasoupService.getWorkerExcluding(routers);
+      if (worker) {
+        const router = await mediasoupService.createRouter(worker);
+        room.consumerRouters.set(router.id, { router, pipedProducers: new Map() });
+
+        logRoomEvent('info', 'Consumer router added to room', room.id, undefined, {
+          routerId: router.id,
+          routerCount: routers.length + 1,
+        });
+
+        return router;
+      }
+    }
+
+    // Every router is full and no more can be added, use the least crowded one
+    return routers.reduce((least, router) =>
+      (recvCounts.get(router.id) ?? 0) < (recvCounts.get(least.id) ?? 0) ? router : least
+    );
+  }
+
+  // Router that hosts the participant's recv transport, with the producer piped into it on demand
+  private async getConsumerRouter(
+    room: Room,
+    participant: Participant,
+    id: { producerId: string } | { dataProducerId: string }
+  ): Promise<mediasoupTypes.Router> {
+    const consumerRouter = participant.recvRouterId ? room.consumerRouters.get(participant.recvRouterId) : undefined;
+    if (!consumerRouter) {
+      return room.router!;
+    }
+
+    const key = 'producerId' in id ? id.producerId : id.dataProducerId;
+    let piping = consumerRouter.pipedProducers.get(key);
+    if (!piping) {
+      // Share one pipe between concurrent subscribers of the same producer
+      piping = mediasoupService.pipeToRouter(room.router!, consumerRouter.router, id).then(result => {
+        const forget = () => {
+          consumerRouter.pipedProducers.delete(key);
+        };
+        result.pipeProducer?.observer.once('close', forget);
+        result.pipeDataProducer?.observer.once('close', forget);
+      });
+      consumerRouter.pipedProducers.set(key, piping);
+      piping.catch(() => {
+        consumerRouter.pipedProducers.delete(key);
+      });
+    }
+
+    await piping;
+    return consumerRouter.router;
+  }
+
+  // Close consumer routers nobody receives from anymore
+  private releaseIdleConsumerRouters(room: Room): void {
+    for (const [routerId, consumerRouter] of room.consumerRouters) {
+      const inUse = Array.from(room.participants.values()).some(p => p.recvRouterId === routerId);
+      if (!inUse) {
+        consumerRouter.router.close();
+        room.consumerRouters.delete(routerId);
+
+        logRoomEvent('info', 'Idle consumer router released', room.id, undefined, { routerId });
+      }
+    }
+  }
+
+  // Moderation: act on another participant's producers
+  async muteParticipant(roomId: string, participantId: string): Promise<ProducerInfo[]> {
+    const participant = this.getRoomParticipant(roomId, participantId);
+
+    participant.moderatorMutedMedia.add('audio');
+    const paused = await this.pauseProducers(participant, p => this.getModeratedMedia(p) === 'audio');
+    await this.updateMediaState(participant);
+
+    logRoomEvent('info', 'Participant muted by moderator', roomId, participantId, {
+      producerIds: paused.map(p => p.id),
+    });
+
+    return paused;
+  }
+
+  async disableParticipantVideo(roomId: string, participantId: string): Promise<ProducerInfo[]> {
+    const participant = this.getRoomParticipant(roomId, participantId);
+
+    participant.moderatorMutedMedia.add('camera');
+    const paused = await this.pauseProducers(participant, p => this.getModeratedMedia(p) === 'camera');
+    await this.updateMediaState(participant);
+
+    logRoomEvent('info', 'Participant video disabled by moderator', roomId, participantId, {
+      producerIds: paused.map(p => p.id),
+    });
+
+    return paused;
+  }
+
+  // Lets the participant publish and resume audio again. Paused producers stay paused until the participant resumes them.
+  unmuteParticipant(roomId: string, participantId: string): string[] {
+    const participant = this.getRoomParticipant(roomId, participantId);
+
+    const released = this.releaseModeratorMute(participant, 'audio');
+
+    logRoomEvent('info', 'Participant unmuted by moderator', roomId, participantId, {
+      producerIds: released,
+    });
+
+    return released;
+  }
+
+  enableParticipantVideo(roomId: string, participantId: string): string[] {
+    const participant = this.getRoomParticipant(roomId, participantId);
+
+    const released = this.releaseModeratorMute(participant, 'camera');
+
+    logRoomEvent('info', 'Participant video enabled by moderator', roomId, participantId, {
+      producerIds: released,
+    });
+
+    return released;
+  }
+
+  async stopScreenShare(roomId: string, participantId: string): Promise<ProducerInfo[]> {
+    const participant = this.getRoomParticipant(roomId, participantId);
+
+    const closed = Array.from(participant.producers.values()).filter(p => this.isScreenShare(p));
+    for (const producerInfo of closed) {
+      producerInfo.producer.close();
+      participant.producers.delete(producerInfo.id);
+    }
+    await this.updateMediaState(participant);
+
+    logRoomEvent('info', 'Participant screen share stopped by moderator', roomId, participantId, {
+      producerIds: closed.map(p => p.id),
+    });
+
+    return closed;
+  }
+
+  private assertProducerAllowed(room: Room, participant: Participant, kind: 'audio' | 'video', appData?: any): void {
+    const isScreen = kind === 'video' && appData?.source === 'screen';
+
+    if (!this.isProducerAllowed(room.policy, kind, isScreen)) {
+      throw createProducerError(ERROR_CODES.PRODUCER_NOT_ALLOWED, 'Producer not allowed by room policy', undefined, room.id, {
+        kind,
+        source: isScreen ? 'screen' : appData?.source,
+      });
+    }
+
+    // A new producer would get around the mute, only the moderator can lift it
+    const media = kind === 'audio' ? 'audio' : isScreen ? undefined : 'camera';
+    if (media && participant.moderatorMutedMedia.has(media)) {
+      throw createProducerError(ERROR_CODES.PRODUCER_PAUSED_BY_MODERATOR, 'Muted by a moderator', undefined, room.id, {
+        kind,
+      });
+    }
+
+    // A publisher keeps its slot while the camera producer exists, paused or not
+    const { maxVideoPublishers } = room.policy;
+    if (kind === 'video' && !isScreen && maxVideoPublishers > 0) {
+      const publishers = Array.from(room.participants.values())
+        .filter(p => Array.from(p.producers.values()).some(info => info.kind === 'video' && !this.isScreenShare(info)));
+      if (!publishers.includes(participant) && publishers.length >= maxVideoPublishers) {
+        throw createProducerError(ERROR_CODES.PRODUCER_LIMIT_REACHED, 'Too many video publishers in room', undefined, room.id, {
+          limit: maxVideoPublishers,
+        });
+      }
+    }
+  }
+
+  private isProducerAllowed(policy: RoomPolicy, kind: 'audio' | 'video', isScreen: boolean): boolean {
+    return policy.allowedKinds.includes(kind) && (!isScreen || policy.allowScreenSharing);
+  }
+
+  // Media flags follow the participant's live, unpaused producers
+  async updateMediaState(participant: Participant): Promise<void> {
+    const live = Array.from(participant.producers.values()).filter(p => !p.paused);
+    participant.isAudioEnabled = live.some(p => p.kind === 'audio');
+    participant.isVideoEnabled = live.some(p => p.kind === 'video' && !this.isScreenShare(p));
+    participant.isScreenSharing = live.some(p => this.isScreenShare(p));
+
+    await this.persist('media state', participant.roomId, participant.id, () =>
+      databaseService.updateParticipant(participant.id, this.toMediaStateRecord(participant))
+    );
+    await clusterService.updateParticipant(participant);
+  }
+
+  isScreenShare(producerInfo: ProducerInfo): boolean {
+    return producerInfo.kind === 'video' && producerInfo.appData?.source === 'screen';
+  }
+
+  private getRoomParticipant(roomId: string, participantId: string): Participant {
+    const room = this.rooms.get(roomId);
+    if (!room) {
+      throw createRoomError(ERROR_CODES.ROOM_NOT_FOUND, 'Room not found', roomId);
+    }
+
+    const participant = room.participants.get(participantId);
+    if (!participant) {
+      throw createParticipantError(ERROR_CODES.PARTICIPANT_NOT_FOUND, 'Participant not found', participantId, roomId);
+    }
+
+    return participant;
+  }
+
+  private async pauseProducers(participant: Participant, filter: (producerInfo: ProducerInfo) => boolean): Promise<ProducerInfo[]> {
+    const paused: ProducerInfo[] = [];
+
+    for (const producerInfo of participant.producers.values()) {
+      if (!filter(producerInfo) || producerInfo.paused) {
+        continue;
+      }
+
+      await producerInfo.producer.pause();
+      producerInfo.paused = true;
+      paused.push(producerInfo);
+    }
+
+    return paused;
+  }
+
+  // Whether a moderator muted this producer's media, audio or camera
+  isMutedByModerator(participant: Participant, producerInfo: ProducerInfo): boolean {
+    const media = this.getModeratedMedia(producerInfo);
+    return media !== undefined && participant.moderatorMutedMedia.has(media);
+  }
+
+  // Returns the producers of that media the participant may resume again
+  private releaseModeratorMute(participant: Participant, media: 'audio' | 'camera'): string[] {
+    if (!participant.moderatorMutedMedia.delete(media)) {
+      return [];
+    }
+
+    return Array.from(participant.producers.values())
+      .filter(p => this.getModeratedMedia(p) === media)
+      .map(p => p.id);
+  }
+
+  // Screen shares are stopped by a moderator, not muted
+  private getModeratedMedia(producerInfo: ProducerInfo): 'audio' | 'camera' | undefined {
+    if (producerInfo.kind === 'audio') {
+      return 'audio';
+    }
+    return this.isScreenShare(producerInfo) ? undefined : 'camera';
+  }
+
+  // Lobby (waiting room) management
+  // Entries are keyed by room ID only, so users can wait before the room exists
+  addToLobby(
+    roomId: string,
+    userId: string,
+    user: User,
+    displayName: string,
+    metadata?: Record<string, any>
+  ): LobbyEntry {
+    let lobby = this.lobbies.get(roomId);
+    if (!lobby) {
+      lobby = new Map();
+      this.lobbies.set(roomId, lobby);
+    }
+
+    const entry: LobbyEntry = {
+      id: uuidv4(),
+      roomId,
+      userId,
+      user,
+      displayName,
+      requestedAt: new Date(),
+      ...(metadata && { metadata }),
+    };
+    lobby.set(entry.id, entry);
+
+    logRoomEvent('info', 'Participant waiting in lobby', roomId, undefined, {
+      lobbyId: entry.id,
+      userId,
+      waitingCount: lobby.size,
+    });
+
+    return entry;
+  }
+
+  getLobbyEntry(roomId: string, lobbyId: string): LobbyEntry | undefined {
+    return this.lobbies.get(roomId)?.get(lobbyId);
+  }
+
+  getLobbyEntries(roomId: string): LobbyEntry[] {
+    const lobby = this.lobbies.get(roomId);
+    return lobby ? Array.from(lobby.values()) : [];
+  }
+
+  removeFromLobby(roomId: string, lobbyId: string): LobbyEntry | undefined {
+    const lobby = this.lobbies.get(roomId);
+    const entry = lobby?.get(lobbyId);
+    if (!lobby || !entry) {
+      return undefined;
+    }
+
+    lobby.delete(lobbyId);
+    if (lobby.size === 0) {
+      this.lobbies.delete(roomId);
+    }
+
+    return entry;
+  }
+
+  getLobbyEntryInfo(entry: LobbyEntry): LobbyEntryInfo {
+    return {
+      id: entry.id,
+      userId: entry.userId,
+      displayName: entry.displayName,
+      requestedAt: entry.requestedAt.toISOString(),
+      ...(entry.metadata && { metadata: entry.metadata }),
+    };
+  }
+
+  async startRecording(roomId: string, startedBy: string): Promise<Recording> {
+    const room = this.rooms.get(roomId);
+    if (!room) {
+      throw createRoomError(ERROR_CODES.ROOM_NOT_FOUND, 'Room not found', roomId);
+    }
+
+    if (!room.router) {
+      throw createRoomError(ERROR_CODES.ROUTER_NOT_FOUND, 'Router not found', roomId);
+    }
+
+    return recordingService.startRecording(room, startedBy);
+  }
+
+  async stopRecording(roomId: string): Promise<RecordingResult> {
+    if (!this.rooms.has(roomId)) {
+      throw createRoomError(ERROR_CODES.ROOM_NOT_FOUND, 'Room not found', roomId);
+    }
+
+    return recordingService.stopRecording(roomId);
+  }
+
   getRouterRtpCapabilities(roomId: string): mediasoupTypes.RtpCapabilities {
     const room = this.rooms.get(roomId);
     if (!room) {
@@ -495,11 +1121,13 @@ export class RoomService {
     return {
       id: participant.id,
       userId: participant.userId,
+      ...(participant.deviceId && { deviceId: participant.deviceId }),
       displayName: participant.displayName,
       isAudioEnabled: participant.isAudioEnabled,
       isVideoEnabled: participant.isVideoEnabled,
       isScreenSharing: participant.isScreenSharing,
       isHidden: participant.isHidden ?? false,  // Ensure it's always boolean
+      ...(participant.isReconnecting && { isReconnecting: true }),
       joinedAt: participant.joinedAt.toISOString(),
       ...(participant.metadata && { metadata: participant.metadata }),
     };
@@ -516,6 +1144,352 @@ export class RoomService {
       updatedAt: room.updatedAt.toISOString(),
       participantCount: room.participants.size,
       instanceId: room.instanceId,
+      routerCount: (room.router ? 1 : 0) + room.consumerRouters.size,
+      isRecording: recordingService.isRecording(room.id),
+      policy: room.policy,
+    };
+  }
+
+  // Rooms whose worker died are left with a closed router; give them a fresh one
+  // on a live worker. Rooms on healthy workers are untouched.
+  async recreateClosedRouters(): Promise<void> {
+    for (const room of this.rooms.values()) {
+      if (!room.router?.closed) {
+        this.dropClosedConsumerRouters(room);
+      }
+    }
+
+    const affectedRooms = Array.from(this.rooms.values()).filter(room => room.router?.closed);
+
+    for (const room of affectedRooms) {
+      try {
+        // Producers are gone with the old router, a running recording cannot continue
+        if (recordingService.isRecording(room.id)) {
+          try {
+            await recordingService.stopRecording(room.id);
+          } catch (error) {
+            logRoomEvent('warn', 'Failed to stop recording after worker death', room.id, undefined, {
+              error: error instanceof Error ? error.message : String(error),
+            });
+          }
+        }
+
+        speakerService.detachRoom(room);
+
+        // Consumer routers only carry pipes from the old primary router, nothing survives there
+        for (const consumerRouter of room.consumerRouters.values()) {
+          consumerRouter.router.close();
+        }
+        room.consumerRouters.clear();
+
+        // mediasoup already closed every transport, producer and consumer on the dead worker
+        for (const participant of room.participants.values()) {
+          this.resetParticipantMedia(participant);
+          await this.updateMediaState(participant);
+        }
+
+        const worker = mediasoupService.getWorker();
+        room.router = await mediasoupService.createRouter(worker);
+        room.updatedAt = new Date();
+
+        try {
+          await speakerService.attachRoom(room);
+        } catch (error) {
+          logRoomEvent('warn', 'Failed to attach speaker observers', room.id, undefined, {
+            error: error instanceof Error ? error.message : String(error),
+          });
+        }
+
+        logRoomEvent('warn', 'Router recreated after worker death', room.id, undefined, {
+          routerId: room.router.id,
+          participantCount: room.participants.size,
+        });
+
+        this.notifyRouterReset(room, Array.from(room.participants.keys()), ['send', 'recv']);
+      } catch (error) {
+        logRoomEvent('error', 'Failed to recreate router after worker death', room.id, undefined, {
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+  }
+
+  // A consumer router on a dead worker only costs its participants their receive side;
+  // they get a new recv transport through the usual router selection
+  private dropClosedConsumerRouters(room: Room): void {
+    for (const [routerId, consumerRouter] of room.consumerRouters) {
+      if (!consumerRouter.router.closed) {
+        continue;
+      }
+
+      room.consumerRouters.delete(routerId);
+
+      const affected = Array.from(room.participants.values()).filter(p => p.recvRouterId === routerId);
+      for (const participant of affected) {
+        delete participant.recvTransport;
+        delete participant.recvRouterId;
+        participant.consumers.clear();
+        participant.dataConsumers.clear();
+      }
+
+      logRoomEvent('warn', 'Consumer router lost after worker death', room.id, undefined, {
+        routerId,
+        participantCount: affected.length,
+      });
+
+      if (affected.length > 0) {
+        this.notifyRouterReset(room, affected.map(p => p.id), ['recv']);
+      }
+    }
+  }
+
+  private notifyRouterReset(room: Room, participantIds: string[], transports: Array<'send' | 'recv'>): void {
+    for (const handler of this.routerResetHandlers) {
+      handler(room, participantIds, transports);
+    }
+  }
+
+  private resetParticipantMedia(participant: Participant): void {
+    delete participant.sendTransport;
+    delete participant.recvTransport;
+    delete participant.recvRouterId;
+    participant.producers.clear();
+    participant.consumers.clear();
+    participant.dataProducers.clear();
+    participant.dataConsumers.clear();
+  }
+
+  // Fetches the room's policy again, or takes the one given, and applies it when it differs.
+  // Producers the new policy forbids are closed; the video publisher limit only affects new ones.
+  async refreshRoomPolicy(roomId: string, policy?: RoomPolicy): Promise<boolean> {
+    const room = this.rooms.get(roomId);
+    if (!room) {
+      return false;
+    }
+
+    const next = policy ?? await authService.fetchRoomPolicy(roomId);
+    if (!next || JSON.stringify(next) === JSON.stringify(room.policy)) {
+      return false;
+    }
+
+    room.policy = next;
+    // Lowering the cap keeps everyone already in the room, it only turns away new joins
+    room.maxParticipants = Math.min(room.requestedMaxParticipants, next.maxParticipants);
+    room.updatedAt = new Date();
+
+    const closedProducers = new Map<string, ProducerInfo[]>();
+    for (const participant of room.participants.values()) {
+      if (participant.sendTransport && !participant.sendTransport.closed) {
+        try {
+          await participant.sendTransport.setMaxIncomingBitrate(next.maxBitrate);
+        } catch (error) {
+          logRoomEvent('warn', 'Failed to apply bitrate cap', roomId, participant.id, {
+            error: error instanceof Error ? error.message : String(error),
+          });
+        }
+      }
+
+      const closed = Array.from(participant.producers.values())
+        .filter(p => !this.isProducerAllowed(next, p.kind, this.isScreenShare(p)));
+      for (const producerInfo of closed) {
+        producerInfo.producer.close();
+        participant.producers.delete(producerInfo.id);
+      }
+      if (closed.length > 0) {
+        closedProducers.set(participant.id, closed);
+        await this.updateMediaState(participant);
+      }
+    }
+
+    logRoomEvent('info', 'Room policy updated', roomId, undefined, {
+      maxParticipants: room.maxParticipants,
+      maxBitrate: next.maxBitrate,
+      allowedKinds: next.allowedKinds,
+      allowScreenSharing: next.allowScreenSharing,
+      maxVideoPublishers: next.maxVideoPublishers,
+      closedProducers: Array.from(closedProducers.values()).reduce((count, list) => count + list.length, 0),
+    });
+
+    for (const handler of this.policyChangeHandlers) {
+      handler(room, closedProducers);
+    }
+
+    return true;
+  }
+
+  startPolicyRefresh(): void {
+    if (this.policyRefreshInterval) {
+      return;
+    }
+
+    this.policyRefreshInterval = setInterval(() => {
+      void this.refreshRoomPolicies();
+    }, config.room.policyRefreshInterval);
+    this.policyRefreshInterval.unref();
+  }
+
+  stopPolicyRefresh(): void {
+    if (this.policyRefreshInterval) {
+      clearInterval(this.policyRefreshInterval);
+      delete this.policyRefreshInterval;
+    }
+  }
+
+  private async refreshRoomPolicies(): Promise<void> {
+    for (const room of Array.from(this.rooms.values())) {
+      if (!room.isActive) {
+        continue;
+      }
+
+      try {
+        await this.refreshRoomPolicy(room.id);
+      } catch (error) {
+        logRoomEvent('warn', 'Failed to refresh room policy', room.id, undefined, {
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+  }
+
+  // Database write-through. Rooms and participants are written on create, join, leave and
+  // media-state changes; the in-memory state stays authoritative and the periodic
+  // reconciliation repairs rows that missed a write (database down, crash, restart).
+  startReconciliation(): void {
+    if (this.reconcileInterval) {
+      return;
+    }
+
+    void this.reconcileWithDatabase();
+    this.reconcileInterval = setInterval(() => {
+      void this.reconcileWithDatabase();
+    }, config.room.reconcileInterval);
+    this.reconcileInterval.unref();
+  }
+
+  stopReconciliation(): void {
+    if (this.reconcileInterval) {
+      clearInterval(this.reconcileInterval);
+      delete this.reconcileInterval;
+    }
+  }
+
+  async reconcileWithDatabase(): Promise<void> {
+    if (!databaseService.isHealthy()) {
+      return;
+    }
+
+    try {
+      let repaired = 0;
+      const roomRecords = new Map(
+        (await databaseService.getRooms(config.cluster.instanceId)).map(record => [record.id, record])
+      );
+
+      // Rooms this instance no longer hosts have nobody in them
+      for (const record of roomRecords.values()) {
+        if (record.is_active && !this.rooms.has(record.id)) {
+          await databaseService.deleteRoomParticipants(record.id);
+          await databaseService.updateRoom(record.id, { is_active: false });
+          repaired++;
+        }
+      }
+
+      for (const room of this.rooms.values()) {
+        const roomRecord = roomRecords.get(room.id);
+        if (!roomRecord) {
+          await databaseService.createRoom(this.toRoomRecord(room));
+          repaired++;
+        } else if (roomRecord.is_active !== room.isActive) {
+          await databaseService.updateRoom(room.id, { is_active: room.isActive });
+          repaired++;
+        }
+
+        const participantRecords = new Map(
+          (await databaseService.getRoomParticipants(room.id)).map(record => [record.id, record])
+        );
+
+        for (const participantId of participantRecords.keys()) {
+          if (!room.participants.has(participantId)) {
+            await databaseService.deleteParticipant(participantId);
+            repaired++;
+          }
+        }
+
+        for (const participant of room.participants.values()) {
+          const participantRecord = participantRecords.get(participant.id);
+          if (!participantRecord) {
+            await databaseService.createParticipant(this.toParticipantRecord(participant));
+            repaired++;
+          } else if (
+            participantRecord.is_audio_enabled !== participant.isAudioEnabled ||
+            participantRecord.is_video_enabled !== participant.isVideoEnabled ||
+            participantRecord.is_screen_sharing !== participant.isScreenSharing
+          ) {
+            await databaseService.updateParticipant(participant.id, this.toMediaStateRecord(participant));
+            repaired++;
+          }
+        }
+      }
+
+      if (repaired > 0) {
+        logSystemEvent('warn', 'Database room state reconciled', 'room', { repaired });
+      }
+    } catch (error) {
+      logSystemEvent('error', 'Failed to reconcile room state with database', 'room', {
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  // Best effort: a failed write is logged and left to the reconciliation
+  private async persist(what: string, roomId: string, participantId: string | undefined, write: () => Promise<unknown>): Promise<void> {
+    if (!databaseService.isHealthy()) {
+      return;
+    }
+
+    try {
+      await write();
+    } catch (error) {
+      logRoomEvent('warn', `Failed to persist ${what}`, roomId, participantId, {
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  private toRoomRecord(room: Room): RoomRecord {
+    return {
+      id: room.id,
+      name: room.name,
+      ...(room.description && { description: room.description }),
+      max_participants: room.maxParticipants,
+      is_active: room.isActive,
+      instance_id: room.instanceId,
+      created_at: room.createdAt,
+      updated_at: room.updatedAt,
+    };
+  }
+
+  private toParticipantRecord(participant: Participant): ParticipantRecord {
+    return {
+      id: participant.id,
+      user_id: participant.userId,
+      room_id: participant.roomId,
+      display_name: participant.displayName,
+      is_audio_enabled: participant.isAudioEnabled,
+      is_video_enabled: participant.isVideoEnabled,
+      is_screen_sharing: participant.isScreenSharing,
+      joined_at: participant.joinedAt,
+      last_seen: participant.lastSeen,
+      created_at: participant.joinedAt,
+      updated_at: new Date(),
+    };
+  }
+
+  private toMediaStateRecord(participant: Participant): Partial<ParticipantRecord> {
+    return {
+      is_audio_enabled: participant.isAudioEnabled,
+      is_video_enabled: participant.isVideoEnabled,
+      is_screen_sharing: participant.isScreenSharing,
+      last_seen: participant.lastSeen,
     };
   }
 
@@ -571,6 +1545,17 @@ export class RoomService {
         audio: participants.reduce((sum, p) => sum + Array.from(p.consumers.values()).filter(c => c.kind === 'audio').length, 0),
         video: participants.reduce((sum, p) => sum + Array.from(p.consumers.values()).filter(c => c.kind === 'video').length, 0),
       },
+      dataProducers: {
+        total: participants.reduce((sum, p) => sum + p.dataProducers.size, 0),
+      },
+      dataConsumers: {
+        total: participants.reduce((sum, p) => sum + p.dataConsumers.size, 0),
+      },
+      lobby: {
+        rooms: this.lobbies.size,
+        waiting: Array.from(this.lobbies.values()).reduce((sum, lobby) => sum + lobby.size, 0),
+      },
+      workers: mediasoupService.getWorkerStats(),
     };
   }
 }
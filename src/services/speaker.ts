@@ -0,0 +1,210 @@
+import { types as mediasoupTypes } from 'mediasoup';
+import { config } from '@/config';
+import { Room, ProducerInfo, WebSocketMessage } from '@/types';
+import { mediasoupService } from './mediasoup';
+import { logRoomEvent } from '@/utils/logger';
+
+// const logger = createLogger({ component: 'speaker' });
+
+export type SpeakerEventHandler = (roomId: string, message: WebSocketMessage) => void;
+
+interface RoomObservers {
+  room: Room;
+  audioLevelObserver: mediasoupTypes.AudioLevelObserver;
+  activeSpeakerObserver: mediasoupTypes.ActiveSpeakerObserver;
+  producerParticipants: Map<string, string>;
+  activeSpeakerId?: string;
+  lastActiveSpeakerAt: number;
+  pendingActiveSpeakerId?: string;
+  activeSpeakerTimer?: NodeJS.Timeout;
+  silent: boolean;
+}
+
+export class SpeakerService {
+  // Keyed by router ID: observers live and die with the room's router
+  private observers = new Map<string, RoomObservers>();
+  private handlers: SpeakerEventHandler[] = [];
+
+  onEvent(handler: SpeakerEventHandler): void {
+    this.handlers.push(handler);
+  }
+
+  async attachRoom(room: Room): Promise<void> {
+    if (!room.router || this.observers.has(room.router.id)) {
+      return;
+    }
+
+    const audioLevelObserver = await mediasoupService.createAudioLevelObserver(room.router);
+    const activeSpeakerObserver = await mediasoupService.createActiveSpeakerObserver(room.router);
+
+    const state: RoomObservers = {
+      room,
+      audioLevelObserver,
+      activeSpeakerObserver,
+      producerParticipants: new Map(),
+      lastActiveSpeakerAt: 0,
+      silent: true,
+    };
+
+    audioLevelObserver.on('volumes', (volumes) => {
+      state.silent = false;
+      this.emit(state.room.id, {
+        type: 'audioLevels',
+        data: {
+          roomId: state.room.id,
+          levels: volumes
+            .filter(({ producer }) => state.producerParticipants.has(producer.id))
+            .map(({ producer, volume }) => ({
+              participantId: state.producerParticipants.get(producer.id),
+              producerId: producer.id,
+              volume,
+            })),
+        },
+      });
+    });
+
+    audioLevelObserver.on('silence', () => {
+      // Only the transition into silence is worth telling clients about
+      if (state.silent) {
+        return;
+      }
+      state.silent = true;
+      this.emit(state.room.id, {
+        type: 'audioLevels',
+        data: {
+          roomId: state.room.id,
+          levels: [],
+        },
+      });
+    });
+
+    activeSpeakerObserver.on('dominantspeaker', ({ producer }) => {
+      this.handleDominantSpeaker(state, producer.id);
+    });
+
+    this.observers.set(room.router.id, state);
+  }
+
+  async addProducer(room: Room, participantId: string, producerInfo: ProducerInfo): Promise<void> {
+    if (producerInfo.kind !== 'audio' || !room.router) {
+      return;
+    }
+
+    const state = this.observers.get(room.router.id);
+    if (!state) {
+      return;
+    }
+
+    // Hidden participants (observers) must not surface in speaker events
+    const participant = room.participants.get(participantId);
+    if (participant?.isHidden) {
+      return;
+    }
+
+    try {
+      await state.audioLevelObserver.addProducer({ producerId: producerInfo.id });
+      await state.activeSpeakerObserver.addProducer({ producerId: producerInfo.id });
+      state.producerParticipants.set(producerInfo.id, participantId);
+
+      // mediasoup drops closed producers from the observers, we only need to forget the mapping
+      producerInfo.producer.observer.once('close', () => {
+        state.producerParticipants.delete(producerInfo.id);
+      });
+    } catch (error) {
+      logRoomEvent('warn', 'Failed to add producer to speaker observers', room.id, participantId, {
+        producerId: producerInfo.id,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  detachRoom(room: Room): void {
+    if (!room.router) {
+      return;
+    }
+
+    const state = this.observers.get(room.router.id);
+    if (!state) {
+      return;
+    }
+
+    if (state.activeSpeakerTimer) {
+      clearTimeout(state.activeSpeakerTimer);
+    }
+
+    state.audioLevelObserver.close();
+    state.activeSpeakerObserver.close();
+    this.observers.delete(room.router.id);
+  }
+
+  getActiveSpeaker(room: Room): { participantId: string; producerId: string } | undefined {
+    const state = room.router ? this.observers.get(room.router.id) : undefined;
+    if (!state?.activeSpeakerId) {
+      return undefined;
+    }
+
+    const participantId = state.producerParticipants.get(state.activeSpeakerId);
+    return participantId ? { participantId, producerId: state.activeSpeakerId } : undefined;
+  }
+
+  private handleDominantSpeaker(state: RoomObservers, producerId: string): void {
+    if (!state.producerParticipants.has(producerId)) {
+      return;
+    }
+
+    state.pendingActiveSpeakerId = producerId;
+
+    // Trailing throttle: the latest dominant speaker wins once the window elapses
+    const elapsed = Date.now() - state.lastActiveSpeakerAt;
+    if (elapsed >= config.speaker.activeSpeakerThrottle) {
+      this.flushActiveSpeaker(state);
+    } else if (!state.activeSpeakerTimer) {
+      state.activeSpeakerTimer = setTimeout(() => {
+        delete state.activeSpeakerTimer;
+        this.flushActiveSpeaker(state);
+      }, config.speaker.activeSpeakerThrottle - elapsed);
+    }
+  }
+
+  private flushActiveSpeaker(state: RoomObservers): void {
+    const producerId = state.pendingActiveSpeakerId;
+    delete state.pendingActiveSpeakerId;
+
+    if (!producerId || producerId === state.activeSpeakerId) {
+      return;
+    }
+
+    const participantId = state.producerParticipants.get(producerId);
+    if (!participantId) {
+      return;
+    }
+
+    state.activeSpeakerId = producerId;
+    state.lastActiveSpeakerAt = Date.now();
+
+    this.emit(state.room.id, {
+      type: 'activeSpeaker',
+      data: {
+        roomId: state.room.id,
+        participantId,
+        producerId,
+      },
+    });
+  }
+
+  private emit(roomId: string, message: WebSocketMessage): void {
+    for (const handler of this.handlers) {
+      try {
+        handler(roomId, message);
+      } catch (error) {
+        logRoomEvent('error', 'Speaker event handler failed', roomId, undefined, {
+          type: message.type,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+  }
+}
+
+// Singleton instance
+export const speakerService = new SpeakerService();
@@ -0,0 +1,89 @@
+import { createHash, randomBytes } from 'crypto';
+import { JWTClaims, SFUError, User } from '@/types';
+import { redisService } from './redis';
+import { revocationService } from './revocation';
+import { logSystemEvent } from '@/utils/logger';
+import { createAuthError, ERROR_CODES } from '@/utils/errors';
+
+// const logger = createLogger({ component: 'ticket' });
+
+const TICKET_TTL_SECONDS = 30;
+
+export interface ConnectionTicket {
+  claims: JWTClaims;
+  user: User;
+  origin?: string;
+  roomId?: string; // The connection may only join this room
+  issuedAt: string;
+}
+
+export interface IssuedTicket {
+  ticket: string;
+  expiresIn: number;
+}
+
+// WebSocket connections authenticate with a short-lived ticket instead of the JWT,
+// so access tokens never show up in URLs and the proxy logs that record them
+export class TicketService {
+  async issue(claims: JWTClaims, user: User, origin?: string, roomId?: string): Promise<IssuedTicket> {
+    if (!redisService.isHealthy()) {
+      throw new SFUError(ERROR_CODES.SERVICE_UNAVAILABLE, 'Connection tickets are unavailable');
+    }
+
+    const ticket = randomBytes(32).toString('base64url');
+    const data: ConnectionTicket = {
+      claims,
+      user,
+      ...(origin && { origin }),
+      ...(roomId && { roomId }),
+      issuedAt: new Date().toISOString(),
+    };
+
+    // Only a hash is stored, a Redis dump does not hand out usable tickets
+    await redisService.setConnectionTicket(this.hash(ticket), data, TICKET_TTL_SECONDS);
+
+    logSystemEvent('info', 'Connection ticket issued', 'ticket', {
+      userId: user.id,
+      origin,
+      roomId,
+    });
+
+    return { ticket, expiresIn: TICKET_TTL_SECONDS };
+  }
+
+  // A ticket is used up by the first attempt to redeem it, whether or not the checks pass
+  async redeem(ticket: string | null, origin?: string): Promise<ConnectionTicket> {
+    if (!ticket) {
+      throw createAuthError(ERROR_CODES.AUTH_TICKET_INVALID, 'Connection ticket is required');
+    }
+
+    const data: ConnectionTicket | null = await redisService.takeConnectionTicket(this.hash(ticket));
+    if (!data) {
+      throw createAuthError(ERROR_CODES.AUTH_TICKET_INVALID, 'Connection ticket is invalid or expired');
+    }
+
+    if ((data.origin ?? null) !== (origin ?? null)) {
+      throw createAuthError(ERROR_CODES.AUTH_TICKET_INVALID, 'Connection ticket was issued for another origin', {
+        userId: data.user.id,
+      });
+    }
+
+    if (data.claims.exp * 1000 <= Date.now()) {
+      throw createAuthError(ERROR_CODES.AUTH_TOKEN_EXPIRED, 'Token has expired');
+    }
+
+    // The token may have been revoked since the ticket was issued
+    if (await revocationService.isRevoked(data.claims.jti)) {
+      throw createAuthError(ERROR_CODES.AUTH_TOKEN_REVOKED, 'Token has been revoked');
+    }
+
+    return data;
+  }
+
+  private hash(ticket: string): string {
+    return createHash('sha256').update(ticket).digest('hex');
+  }
+}
+
+// Singleton instance
+export const ticketService = new TicketService();
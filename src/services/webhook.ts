@@ -2,15 +2,26 @@ import axios from 'axios';
 import crypto from 'crypto';
 import { config } from '@/config';
 import { logSystemEvent } from '@/utils/logger';
-import { createSystemError, ERROR_CODES } from '@/utils/errors';
-import { WebhookPayload, WebhookEvent } from '@/types';
+import { ERROR_CODES } from '@/utils/errors';
+import { SFUError, WebhookPayload, WebhookEvent, WebhookOutboxRecord, WebhookDeadLetterRecord } from '@/types';
+import { databaseService } from './database';
 
 // const logger = createLogger({ component: 'webhook' });
 
+const OUTBOX_BATCH_SIZE = 20;
+// Claims of a worker that died free up after this long
+const OUTBOX_LOCK_MS = 60000;
+
+// Webhooks go to a Postgres outbox first and a worker delivers them, retrying with
+// exponential backoff. Those still failing after WEBHOOK_MAX_ATTEMPTS are moved to a
+// dead-letter table to be replayed through the admin API.
 export class WebhookService {
   private retryAttempts = 3;
   private retryDelay = 1000; // 1 second
+  private pollInterval?: NodeJS.Timeout;
+  private processing?: Promise<void>;
 
+  // Returns once the webhook is queued and never throws, so callers need not wait for it
   async sendWebhook(event: WebhookEvent): Promise<void> {
     // Skip webhook sending in development mode
     if (process.env['NODE_ENV'] === 'development') {
@@ -21,26 +32,167 @@ export class WebhookService {
       return;
     }
 
+    const payload: WebhookPayload = {
+      id: crypto.randomUUID(),
+      event: event.event,
+      timestamp: new Date().toISOString(),
+      data: event.data,
+      signature: this.generateSignature(event),
+    };
+
+    // Without Postgres there is no outbox, the webhook is lost if this process stops
+    if (!databaseService.isHealthy()) {
+      void this.sendFromMemory(payload);
+      return;
+    }
+
     try {
-      const payload: WebhookPayload = {
+      await databaseService.enqueueWebhook(payload.id, payload);
+      this.kick();
+    } catch (error) {
+      logSystemEvent('error', 'Failed to queue webhook, sending from memory', 'webhook', {
+        error: error instanceof Error ? error.message : String(error),
         event: event.event,
-        timestamp: new Date().toISOString(),
-        data: event.data,
-        signature: this.generateSignature(event),
-      };
+      });
+      void this.sendFromMemory(payload);
+    }
+  }
+
+  start(): void {
+    if (this.pollInterval) {
+      return;
+    }
+
+    this.pollInterval = setInterval(() => this.kick(), config.webhook.pollInterval);
+    this.pollInterval.unref();
+    this.kick();
+  }
+
+  // Lets the batch in progress finish, the rest stays in the outbox for the next start
+  async stop(): Promise<void> {
+    if (this.pollInterval) {
+      clearInterval(this.pollInterval);
+      delete this.pollInterval;
+    }
+    await this.processing;
+  }
+
+  async getOutboxStats(): Promise<{ pending: number; deadLetters: number }> {
+    this.requireDatabase();
+    return await databaseService.getWebhookOutboxStats();
+  }
+
+  async getDeadLetters(limit?: number): Promise<WebhookDeadLetterRecord[]> {
+    this.requireDatabase();
+    return await databaseService.getWebhookDeadLetters(limit);
+  }
+
+  // Queues dead letters again with a fresh attempt count, all of them without an ID
+  async replayDeadLetters(id?: string): Promise<string[]> {
+    this.requireDatabase();
+    const ids = await databaseService.replayWebhookDeadLetters(id);
+
+    logSystemEvent('info', 'Webhook dead letters replayed', 'webhook', {
+      count: ids.length,
+      ...(id && { id }),
+    });
+
+    this.kick();
+    return ids;
+  }
+
+  private requireDatabase(): void {
+    if (!databaseService.isHealthy()) {
+      throw new SFUError(ERROR_CODES.SERVICE_UNAVAILABLE, 'Webhook outbox is unavailable');
+    }
+  }
+
+  // Starts working the outbox unless a batch is already running
+  private kick(): void {
+    if (this.processing || !databaseService.isHealthy()) {
+      return;
+    }
+
+    this.processing = this.processOutbox().finally(() => {
+      delete this.processing;
+    });
+  }
 
+  private async processOutbox(): Promise<void> {
+    try {
+      let batch: WebhookOutboxRecord[];
+      do {
+        batch = await databaseService.claimWebhooks(OUTBOX_BATCH_SIZE, OUTBOX_LOCK_MS);
+        for (const record of batch) {
+          await this.deliver(record);
+        }
+      } while (batch.length === OUTBOX_BATCH_SIZE && this.pollInterval);
+    } catch (error) {
+      logSystemEvent('error', 'Failed to process webhook outbox', 'webhook', {
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  private async deliver(record: WebhookOutboxRecord): Promise<void> {
+    let failure: string | undefined;
+    try {
+      // Rows queued before payloads carried their ID get the outbox ID
+      await this.sendWebhookRequest({ ...record.payload, id: record.id });
+    } catch (error) {
+      failure = error instanceof Error ? error.message : String(error);
+    }
+
+    if (failure === undefined) {
+      await databaseService.completeWebhook(record.id);
+      logSystemEvent('info', 'Webhook sent successfully', 'webhook', {
+        id: record.id,
+        event: record.event,
+        attempts: record.attempts,
+      });
+      return;
+    }
+
+    if (record.attempts >= config.webhook.maxAttempts) {
+      await databaseService.deadLetterWebhook(record.id, failure);
+      logSystemEvent('error', 'Webhook moved to dead letters', 'webhook', {
+        id: record.id,
+        event: record.event,
+        attempts: record.attempts,
+        error: failure,
+      });
+      return;
+    }
+
+    const delay = Math.min(
+      config.webhook.retryBaseDelay * Math.pow(2, record.attempts - 1),
+      config.webhook.retryMaxDelay
+    );
+    await databaseService.rescheduleWebhook(record.id, new Date(Date.now() + delay), failure);
+
+    logSystemEvent('warn', 'Webhook attempt failed, retrying', 'webhook', {
+      id: record.id,
+      event: record.event,
+      attempt: record.attempts,
+      maxAttempts: config.webhook.maxAttempts,
+      delay,
+      error: failure,
+    });
+  }
+
+  private async sendFromMemory(payload: WebhookPayload): Promise<void> {
+    try {
       await this.sendWithRetry(payload);
 
       logSystemEvent('info', 'Webhook sent successfully', 'webhook', {
-        event: event.event,
-        data: event.data,
+        event: payload.event,
+        data: payload.data,
       });
     } catch (error) {
       logSystemEvent('error', 'Failed to send webhook', 'webhook', {
         error: error instanceof Error ? error.message : String(error),
-        event: event.event,
+        event: payload.event,
       });
-      throw createSystemError(ERROR_CODES.DJANGO_WEBHOOK_ERROR, 'Failed to send webhook');
     }
   }
 
@@ -96,26 +248,22 @@ export class WebhookService {
   // }
 
 
-  private async sendWebhookRequest(payload: any): Promise<void> {
+  // Failures are logged by the caller, which knows whether another attempt follows
+  private async sendWebhookRequest(payload: WebhookPayload): Promise<void> {
     const webhookUrl = `${config.django.baseUrl}/api/sfu/webhook/`;
-  
-    try {
-      await axios.post(webhookUrl, payload, {
-        timeout: 10000,
-        headers: {
-          'Content-Type': 'application/json',
-          // This is the ONLY header 99% of Django SFU webhook views expect:
-          'X-Webhook-Secret': config.django.webhookSecret,
-          // If your Django view also checks event/timestamp, add them too:
-          // 'X-Webhook-Event': payload.event,
-          // 'X-Webhook-Timestamp': payload.timestamp,
-        },
-      });
-    } catch (error: any) {
-      // This will now show you the real status code
-      console.error('Webhook failed:', error.response?.status, error.response?.data);
-      throw error;
-    }
+
+    await axios.post(webhookUrl, payload, {
+      timeout: 10000,
+      headers: {
+        'Content-Type': 'application/json',
+        // This is the ONLY header 99% of Django SFU webhook views expect:
+        'X-Webhook-Secret': config.django.webhookSecret,
+        'X-Webhook-Id': payload.id,
+        // If your Django view also checks event/timestamp, add them too:
+        // 'X-Webhook-Event': payload.event,
+        // 'X-Webhook-Timestamp': payload.timestamp,
+      },
+    });
   }
 
 
@@ -1,14 +1,22 @@
 import WebSocket from 'ws';
 import { IncomingMessage } from 'http';
 import { v4 as uuidv4 } from 'uuid';
-import { logWebSocketEvent } from '@/utils/logger';
-import { createSystemError, ERROR_CODES } from '@/utils/errors';
-import { WebSocketMessage, JWTClaims, User } from '@/types';
+import { logWebSocketEvent, logRoomEvent } from '@/utils/logger';
+import { createAuthError, createParticipantError, createProducerError, createRoomError, createSystemError, createValidationError, ERROR_CODES } from '@/utils/errors';
+import { config } from '@/config';
+import { SFUError, WebSocketMessage, Room, ProducerInfo, JWTClaims, User, UserEntitlements, Participant, ParticipantInfo, LobbyEntry, RedirectResponse, ResumeSessionResponse } from '@/types';
 import { authService } from './auth';
 import { roomService } from './room';
 import { webhookService } from './webhook';
 import { databaseService } from './database';
 import { metricsService } from './metrics';
+import { speakerService } from './speaker';
+import { chatService } from './chat';
+import { clusterService, ClusterInstance } from './cluster';
+import { drainService } from './drain';
+import { ticketService } from './ticket';
+import { revocationService } from './revocation';
+import { permissionService, Permission } from './permission';
 import { validateRequest } from '@/utils/validation';
 import {
   createRoomSchema,
@@ -16,6 +24,8 @@ import {
   leaveRoomSchema,
   publishSchema,
   unpublishSchema,
+  produceDataSchema,
+  consumeDataSchema,
   subscribeSchema,
   unsubscribeSchema,
   resumeSchema,
@@ -27,10 +37,35 @@ import {
   connectWebRtcTransportSchema,
   restartIceSchema,
   getRouterRtpCapabilitiesSchema,
+  startRecordingSchema,
+  stopRecordingSchema,
+  muteParticipantSchema,
+  disableParticipantVideoSchema,
+  unmuteParticipantSchema,
+  enableParticipantVideoSchema,
+  stopScreenShareSchema,
+  removeParticipantSchema,
+  admitParticipantSchema,
+  denyParticipantSchema,
+  admitAllSchema,
+  denyAllSchema,
+  sendChatMessageSchema,
+  getChatHistorySchema,
+  deleteChatMessageSchema,
+  resumeSessionSchema,
+  refreshTokenSchema,
 } from '@/utils/validation';
 
 // const logger = createLogger({ component: 'websocket' });
 
+// Close code for connections whose JWT expired without a refreshToken
+export const TOKEN_EXPIRED_CLOSE_CODE = 4001;
+// Close code for connections whose JWT was revoked by Django
+export const TOKEN_REVOKED_CLOSE_CODE = 4002;
+
+// setTimeout fires immediately for longer delays
+const MAX_TIMER_DELAY = 2147483647;
+
 export interface WebSocketConnection {
   id: string;
   ws: WebSocket;
@@ -38,19 +73,47 @@ export interface WebSocketConnection {
   claims: JWTClaims;
   participantId?: string;
   roomId?: string;
+  lobbyId?: string; // Set while waiting in a room's lobby for moderator approval
+  lobbyRoomId?: string;
+  ticketRoomId?: string; // Set when the connection ticket was issued for one room only
+  deviceId?: string; // From joinRoom, identifies the device within the user's participants
+  permissions?: ReadonlySet<Permission>; // The role's permissions under the current room's policy
+  entitlements?: Promise<UserEntitlements>; // Fetched from Django on first use
+  resumeToken: string; // Lets the client take its participant back after the socket drops
+  tokenExpiryTimer?: NodeJS.Timeout; // Next tokenExpiring warning or expiry of claims.exp
   isAlive: boolean;
   lastPing: number;
   createdAt: Date;
 }
 
+// A participant whose connection dropped, kept in the room until resumed or expired
+interface HeldSession {
+  resumeToken: string;
+  connectionId: string;
+  userId: string;
+  jti: string; // Of the dropped connection's token, a revocation ends the hold
+  roomId: string;
+  participantId: string;
+  expiresAt: Date;
+  timer: NodeJS.Timeout;
+}
+
 export class WebSocketService {
   private connections = new Map<string, WebSocketConnection>();
   private roomConnections = new Map<string, Set<string>>();
   private pingInterval?: NodeJS.Timeout;
   private userConnectionAttempts = new Map<string, number>();
+  private heldSessions = new Map<string, HeldSession>(); // keyed by resume token
 
   constructor() {
     this.startPingInterval();
+    speakerService.onEvent((roomId, message) => this.broadcastToRoom(roomId, message));
+    roomService.onRouterReset((room, participantIds, transports) => this.handleRouterReset(room.id, participantIds, transports));
+    clusterService.onRoomEvent((roomId, message) => this.sendToLocalRoom(roomId, message));
+    clusterService.onOwnershipLost((roomId, owner) => void this.handleRoomOwnershipLost(roomId, owner));
+    drainService.onDrain(() => this.handleDrain());
+    roomService.onPolicyChange((room, closedProducers) => this.handlePolicyChange(room, closedProducers));
+    revocationService.onRevoke((jti) => this.handleTokenRevoked(jti));
   }
 
   private startPingInterval(): void {
@@ -82,19 +145,10 @@ export class WebSocketService {
     const connectionId = uuidv4();
     
     try {
-      // Extract JWT token from query parameter or authorization header
-      let authHeader = req.headers.authorization;
-      
-      // If no auth header, try to get token from query parameter
-      if (!authHeader && req.url) {
-        const url = new URL(req.url, `http://${req.headers.host}`);
-        const token = url.searchParams.get('token');
-        if (token) {
-          authHeader = `Bearer ${token}`;
-        }
-      }
-      
-      const { claims, user } = await authService.authenticateUser(authHeader);
+      // Only connection tickets are accepted, see POST /api/connection-tickets
+      const url = new URL(req.url || '/', `http://${req.headers.host}`);
+      const ticket = await ticketService.redeem(url.searchParams.get('ticket'), req.headers.origin);
+      const { claims, user } = ticket;
 
       // Rate limit connection attempts per user
       const now = Date.now();
@@ -108,26 +162,14 @@ export class WebSocketService {
       
       this.userConnectionAttempts.set(user.id, now);
 
-      // Check for existing connections from the same user and close them
-      const existingConnections = Array.from(this.connections.values())
-        .filter(conn => conn.user.id === user.id);
-      
-      if (existingConnections.length > 0) {
-        logWebSocketEvent('info', 'Closing existing connections for user', connectionId, user.id, {
-          existingCount: existingConnections.length
-        });
-        
-        for (const existingConn of existingConnections) {
-          existingConn.ws.close(1000, 'New connection established');
-          this.connections.delete(existingConn.id);
-        }
-      }
-
+      // Users may be connected from several devices, the room policy decides how many can join
       const connection: WebSocketConnection = {
         id: connectionId,
         ws,
         user,
         claims,
+        ...(ticket.roomId && { ticketRoomId: ticket.roomId }),
+        resumeToken: uuidv4(),
         isAlive: true,
         lastPing: Date.now(),
         createdAt: new Date(),
@@ -137,6 +179,7 @@ export class WebSocketService {
 
       // Set up event handlers
       this.setupConnectionHandlers(connection);
+      this.scheduleTokenExpiry(connection);
 
       logWebSocketEvent('info', 'WebSocket connection established', connectionId, user.id, {
         email: user.email,
@@ -154,10 +197,17 @@ export class WebSocketService {
             fullName: user.fullName,
             role: user.role,
           },
+          resumeToken: connection.resumeToken,
+          reconnectGracePeriod: config.session.reconnectGracePeriod,
         },
       });
 
       metricsService.incrementWebSocketMessage('connected', 'success');
+
+      // Clients reconnecting to a draining instance need to know too
+      if (drainService.isDraining()) {
+        this.sendMessage(connectionId, this.createDrainingMessage());
+      }
     } catch (error) {
       logWebSocketEvent('error', 'WebSocket connection failed', connectionId, undefined, {
         error: error instanceof Error ? error.message : String(error),
@@ -224,6 +274,9 @@ export class WebSocketService {
         case 'leaveRoom':
           response = await this.handleLeaveRoom(connection, message);
           break;
+        case 'resumeSession':
+          response = await this.handleResumeSession(connection, message);
+          break;
         case 'getRouterRtpCapabilities':
           response = await this.handleGetRouterRtpCapabilities(connection, message);
           break;
@@ -239,12 +292,21 @@ export class WebSocketService {
         case 'ping':
           response = { type: 'pong', data: { timestamp: Date.now() } };
           break;
+        case 'refreshToken':
+          response = await this.handleRefreshToken(connection, message);
+          break;
         case 'publish':
           response = await this.handlePublish(connection, message);
           break;
         case 'unpublish':
           response = await this.handleUnpublish(connection, message);
           break;
+        case 'produceData':
+          response = await this.handleProduceData(connection, message);
+          break;
+        case 'consumeData':
+          response = await this.handleConsumeData(connection, message);
+          break;
         case 'subscribe':
           response = await this.handleSubscribe(connection, message);
           break;
@@ -266,6 +328,51 @@ export class WebSocketService {
         case 'setPreferredLayers':
           response = await this.handleSetPreferredLayers(connection, message);
           break;
+        case 'muteParticipant':
+          response = await this.handleMuteParticipant(connection, message);
+          break;
+        case 'disableParticipantVideo':
+          response = await this.handleDisableParticipantVideo(connection, message);
+          break;
+        case 'unmuteParticipant':
+          response = this.handleUnmuteParticipant(connection, message);
+          break;
+        case 'enableParticipantVideo':
+          response = this.handleEnableParticipantVideo(connection, message);
+          break;
+        case 'stopScreenShare':
+          response = await this.handleStopScreenShare(connection, message);
+          break;
+        case 'removeParticipant':
+          response = await this.handleRemoveParticipant(connection, message);
+          break;
+        case 'admitParticipant':
+          response = await this.handleAdmitParticipant(connection, message);
+          break;
+        case 'denyParticipant':
+          response = await this.handleDenyParticipant(connection, message);
+          break;
+        case 'admitAll':
+          response = await this.handleAdmitAll(connection, message);
+          break;
+        case 'denyAll':
+          response = await this.handleDenyAll(connection, message);
+          break;
+        case 'sendChatMessage':
+          response = await this.handleSendChatMessage(connection, message);
+          break;
+        case 'getChatHistory':
+          response = await this.handleGetChatHistory(connection, message);
+          break;
+        case 'deleteChatMessage':
+          response = await this.handleDeleteChatMessage(connection, message);
+          break;
+        case 'startRecording':
+          response = await this.handleStartRecording(connection, message);
+          break;
+        case 'stopRecording':
+          response = await this.handleStopRecording(connection, message);
+          break;
         default:
           throw createSystemError(ERROR_CODES.INVALID_REQUEST, `Unknown message type: ${message.type}`);
       }
@@ -283,19 +390,48 @@ export class WebSocketService {
         messageType: message.type,
       });
 
-      this.sendError(connection.id, error instanceof Error ? error.message : String(error), message.requestId);
+      this.sendError(
+        connection.id,
+        error instanceof Error ? error.message : String(error),
+        message.requestId,
+        // Typed errors tell the client why, untyped ones stay generic
+        error instanceof SFUError && error.code !== ERROR_CODES.INTERNAL_ERROR ? error : undefined
+      );
       metricsService.incrementWebSocketMessage(message.type, 'error');
     }
   }
 
   private async handleCreateRoom(connection: WebSocketConnection, message: WebSocketMessage): Promise<any> {
     const data = validateRequest(createRoomSchema, message.data);
+    this.requirePermission(connection, 'createRoom');
+
+    const entitlements = await this.getEntitlements(connection);
+    if (!entitlements.canCreateRooms) {
+      throw createAuthError(ERROR_CODES.ENTITLEMENT_DENIED, 'Not entitled to create rooms', {
+        entitlement: 'canCreateRooms',
+      });
+    }
+
+    const roomCount = roomService.getRoomsCreatedBy(connection.user.id).length;
+    if (roomCount >= entitlements.maxRoomsPerUser) {
+      throw createAuthError(ERROR_CODES.ENTITLEMENT_QUOTA_EXCEEDED, 'Room quota exceeded', {
+        entitlement: 'maxRoomsPerUser',
+        limit: entitlements.maxRoomsPerUser,
+      });
+    }
+
+    // Larger rooms than the user is entitled to are capped rather than refused
+    const maxParticipants = Math.min(
+      data.maxParticipants ?? config.room.maxParticipants,
+      entitlements.maxParticipantsPerRoom
+    );
     
     const room = await roomService.createRoom(
       data.name,
       data.description,
-      data.maxParticipants,
-      'sfu-001' // TODO: Get from config
+      maxParticipants,
+      undefined,
+      connection.user.id
     );
 
     // Log room creation event (optional - skip if database not available)
@@ -320,13 +456,13 @@ export class WebSocketService {
     }
 
     // Send webhook
-    await webhookService.sendRoomCreated(
+    void webhookService.sendRoomCreated(
       room.id,
       room.name,
       room.description,
       room.maxParticipants,
       connection.user.id,
-      'sfu-001'
+      room.instanceId
     );
 
     metricsService.incrementRoomCreation();
@@ -362,116 +498,45 @@ export class WebSocketService {
         roomIdType: typeof data.roomId,
       });
     
+      if (connection.ticketRoomId && connection.ticketRoomId !== data.roomId) {
+        throw createRoomError(ERROR_CODES.ROOM_ACCESS_DENIED, 'Connection ticket was issued for another room', data.roomId);
+      }
+
       // Check room access
       const hasAccess = await authService.validateRoomAccess(connection.user.id, data.roomId);
       if (!hasAccess) {
         throw createSystemError(ERROR_CODES.ROOM_ACCESS_DENIED, 'Access denied to room');
       }
 
-      const participant = await roomService.joinRoom(
-        data.roomId,
-        connection.user.id,
-        connection.user,
-        data.displayName,
-        data.metadata
-      );
-
-      connection.participantId = participant.id;
-      connection.roomId = data.roomId;
-
-      // Add to room connections (check if already exists to prevent duplicates)
-      if (!this.roomConnections.has(data.roomId)) {
-        this.roomConnections.set(data.roomId, new Set());
-      }
-      
-      const roomConnections = this.roomConnections.get(data.roomId)!;
-      if (!roomConnections.has(connection.id)) {
-        roomConnections.add(connection.id);
+      const entitlements = await this.getEntitlements(connection);
+      if (!entitlements.canJoinRooms) {
+        throw createAuthError(ERROR_CODES.ENTITLEMENT_DENIED, 'Not entitled to join rooms', {
+          entitlement: 'canJoinRooms',
+        });
       }
 
-      // Get room participants
-      const participants = roomService.getRoomParticipants(data.roomId);
-      
-      // Filter out hidden participants for non-observer users
-      // Observers can see everyone, but regular users cannot see observers
-      const isObserver = participant.isHidden === true;
-      const visibleParticipants = isObserver 
-        ? participants  // Observers see all participants
-        : participants.filter(p => !p.isHidden);  // Regular users don't see hidden participants
-      
-      const participantInfos = visibleParticipants.map(p => {
-        const info = roomService.getParticipantInfo(p);
-        // Include producer IDs so new participants can subscribe to existing streams
-        const producers = Array.from(p.producers.values()).map(prod => ({
-          id: prod.id,
-          kind: prod.kind,
-          paused: prod.paused
-        }));
-        return { ...info, producers };
-      });
-
-      // Debug log
-      logWebSocketEvent('info', 'Returning participants in joinRoom response', connection.id, connection.user.id, {
-        totalParticipants: participantInfos.length,
-        participantUserIds: participantInfos.map(p => p.userId),
-        currentUserId: connection.user.id,
-        isObserver,
-        participantsWithProducers: participantInfos.map(p => ({ 
-          userId: p.userId, 
-          producerCount: p.producers?.length || 0,
-          isHidden: p.isHidden 
-        }))
-      });
+      if (data.deviceId) {
+        connection.deviceId = data.deviceId;
+      }
 
-      // Log participant join event (optional - skip if database not available)
-      try {
-        await databaseService.logRoomEvent({
-          id: uuidv4(),
-          room_id: data.roomId,
-          participant_id: participant.id,
-          event_type: 'participant.joined',
-          event_data: {
-            userId: connection.user.id,
-            displayName: data.displayName,
-          },
-          created_at: new Date(),
-        });
-      } catch (error) {
-        // Ignore database errors in development
-        logWebSocketEvent('warn', 'Failed to log participant join event', connection.id, connection.user.id, {
-          error: error instanceof Error ? error.message : String(error),
-        });
+      // In cluster mode each room lives on one instance, send the client there
+      const owner = await clusterService.resolveRoomOwner(data.roomId);
+      if (owner) {
+        return this.redirectToInstance(connection, data.roomId, owner, message.requestId);
       }
 
-      // Send webhook
-      await webhookService.sendParticipantJoined(
-        data.roomId,
-        participant.id,
-        connection.user.id,
-        data.displayName,
-        participant.joinedAt.toISOString()
-      );
+      const policy = await roomService.getRoomPolicy(data.roomId);
 
-      // Only notify other participants if this is a new join (not a duplicate)
-      // AND if the joining participant is NOT hidden (observers should not be announced)
-      const isNewParticipant = participant.joinedAt.getTime() > (Date.now() - 1000); // Joined within last second
-      if (isNewParticipant && !participant.isHidden) {
-        this.broadcastToRoom(data.roomId, {
-          type: 'participantJoined',
-          data: {
-            roomId: data.roomId,
-            participant: roomService.getParticipantInfo(participant),
-          },
-        }, connection.id);
+      // Hold the join in the lobby when the room requires moderator approval
+      // Moderators and participants already in the room skip the lobby
+      const permissions = permissionService.resolve(connection.user.role, policy, data.roomId);
+      if (policy?.requireModeratorApproval &&
+          !permissions.has('moderate') &&
+          !roomService.getParticipantByUserId(data.roomId, connection.user.id)) {
+        return this.enterLobby(connection, data.roomId, data.displayName, data.metadata);
       }
 
-      metricsService.incrementParticipantJoin(data.roomId);
-
-      return {
-        roomId: data.roomId,
-        participants: participantInfos,
-        routerRtpCapabilities: roomService.getRouterRtpCapabilities(data.roomId),
-      };
+      return await this.completeJoin(connection, data.roomId, data.displayName, data.metadata);
     } catch (validationError) {
       // Enhanced error logging for validation errors
       logWebSocketEvent('error', 'JoinRoom validation failed', connection.id, connection.user.id, {
@@ -484,8 +549,381 @@ export class WebSocketService {
     }
   }
 
+  private redirectToInstance(
+    connection: WebSocketConnection,
+    roomId: string,
+    owner: ClusterInstance,
+    requestId?: string
+  ): RedirectResponse {
+    logWebSocketEvent('info', 'Redirecting join to owning instance', connection.id, connection.user.id, {
+      roomId,
+      instanceId: owner.instanceId,
+    });
+
+    this.sendMessage(connection.id, {
+      type: 'redirect',
+      data: {
+        roomId,
+        instanceId: owner.instanceId,
+        url: owner.publicUrl,
+      },
+      ...(requestId && { requestId }),
+    });
+
+    return {
+      roomId,
+      status: 'redirected',
+      instanceId: owner.instanceId,
+      url: owner.publicUrl,
+    };
+  }
+
+  private async completeJoin(
+    connection: WebSocketConnection,
+    roomId: string,
+    displayName: string,
+    metadata?: Record<string, any>
+  ): Promise<any> {
+    await this.enforceDeviceLimit(connection, roomId);
+    const entitlements = await this.getEntitlements(connection);
+
+    const participant = await roomService.joinRoom(
+      roomId,
+      connection.user.id,
+      connection.user,
+      displayName,
+      metadata,
+      connection.deviceId,
+      entitlements.maxParticipantsPerRoom
+    );
+
+    // The same device joining again takes its participant over from the old connection
+    const previousConnectionId = this.getParticipantConnectionId(roomId, participant.id);
+    if (previousConnectionId && previousConnectionId !== connection.id) {
+      this.detachReplacedDevice(previousConnectionId, participant);
+    }
+
+    connection.participantId = participant.id;
+    connection.roomId = roomId;
+    const room = roomService.getRoom(roomId);
+    connection.permissions = permissionService.resolve(connection.user.role, room?.policy, roomId);
+
+    // Add to room connections (check if already exists to prevent duplicates)
+    if (!this.roomConnections.has(roomId)) {
+      this.roomConnections.set(roomId, new Set());
+    }
+    
+    const roomConnections = this.roomConnections.get(roomId)!;
+    if (!roomConnections.has(connection.id)) {
+      roomConnections.add(connection.id);
+    }
+
+    // Rejoining without the resume token still picks up a held participant
+    if (this.releaseHeldSession(participant.id)) {
+      this.markSessionResumed(participant);
+    }
+
+    const isObserver = participant.isHidden === true;
+    const participantInfos = this.getVisibleParticipantInfos(participant);
+
+    // Debug log
+    logWebSocketEvent('info', 'Returning participants in joinRoom response', connection.id, connection.user.id, {
+      totalParticipants: participantInfos.length,
+      participantUserIds: participantInfos.map(p => p.userId),
+      currentUserId: connection.user.id,
+      isObserver,
+      participantsWithProducers: participantInfos.map(p => ({ 
+        userId: p.userId, 
+        producerCount: p.producers?.length || 0,
+        isHidden: p.isHidden 
+      }))
+    });
+
+    // Log participant join event (optional - skip if database not available)
+    try {
+      await databaseService.logRoomEvent({
+        id: uuidv4(),
+        room_id: roomId,
+        participant_id: participant.id,
+        event_type: 'participant.joined',
+        event_data: {
+          userId: connection.user.id,
+          displayName: displayName,
+        },
+        created_at: new Date(),
+      });
+    } catch (error) {
+      // Ignore database errors in development
+      logWebSocketEvent('warn', 'Failed to log participant join event', connection.id, connection.user.id, {
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+
+    // Queued for the outbox worker, the join does not wait for Django
+    void webhookService.sendParticipantJoined(
+      roomId,
+      participant.id,
+      connection.user.id,
+      displayName,
+      participant.joinedAt.toISOString()
+    );
+
+    // Only notify other participants if this is a new join (not a duplicate)
+    // AND if the joining participant is NOT hidden (observers should not be announced)
+    const isNewParticipant = participant.joinedAt.getTime() > (Date.now() - 1000); // Joined within last second
+    if (isNewParticipant && !participant.isHidden) {
+      this.broadcastToRoom(roomId, {
+        type: 'participantJoined',
+        data: {
+          roomId: roomId,
+          participant: roomService.getParticipantInfo(participant),
+        },
+      }, connection.id);
+    }
+
+    metricsService.incrementParticipantJoin(roomId);
+
+    const activeSpeaker = room && speakerService.getActiveSpeaker(room);
+
+    return {
+      roomId: roomId,
+      participants: participantInfos,
+      routerRtpCapabilities: roomService.getRouterRtpCapabilities(roomId),
+      ...(activeSpeaker && { activeSpeaker }),
+      // Moderators get the current lobby so they can act on requests made before they joined
+      ...(this.hasPermission(connection, 'moderate') && {
+        lobby: roomService.getLobbyEntries(roomId).map(entry => roomService.getLobbyEntryInfo(entry)),
+      }),
+    };
+  }
+
+  // Makes room for the joining device by removing the user's oldest devices
+  // once the room's maxDevicesPerUser would be exceeded
+  private async enforceDeviceLimit(connection: WebSocketConnection, roomId: string): Promise<void> {
+    const otherDevices = roomService.getParticipantsByUserId(roomId, connection.user.id)
+      .filter(p => p.deviceId !== connection.deviceId);
+    if (otherDevices.length === 0) {
+      return;
+    }
+
+    const maxDevices = roomService.getRoom(roomId)?.policy.maxDevicesPerUser ?? config.room.maxDevicesPerUser;
+
+    while (otherDevices.length >= maxDevices) {
+      const participant = otherDevices.shift()!;
+
+      this.releaseHeldSession(participant.id);
+      const previousConnectionId = this.getParticipantConnectionId(roomId, participant.id);
+      if (previousConnectionId) {
+        this.detachReplacedDevice(previousConnectionId, participant);
+      }
+
+      this.broadcastToRoom(roomId, {
+        type: 'participantLeft',
+        data: {
+          roomId,
+          participantId: participant.id,
+        },
+      });
+
+      await roomService.leaveRoom(roomId, participant.id);
+      metricsService.incrementParticipantLeave(roomId);
+
+      logWebSocketEvent('info', 'Replaced participant on another device', connection.id, connection.user.id, {
+        roomId,
+        participantId: participant.id,
+        deviceId: participant.deviceId,
+        maxDevices,
+      });
+    }
+  }
+
+  // Detach the socket from the room without closing it, the client decides what to do next
+  private detachReplacedDevice(connectionId: string, participant: Participant): void {
+    const previous = this.connections.get(connectionId);
+    if (!previous) {
+      return;
+    }
+
+    this.sendMessage(connectionId, {
+      type: 'deviceReplaced',
+      data: {
+        roomId: participant.roomId,
+        participantId: participant.id,
+      },
+    });
+
+    this.roomConnections.get(participant.roomId)?.delete(connectionId);
+    delete previous.participantId;
+    delete previous.roomId;
+  }
+
+  private async handleResumeSession(connection: WebSocketConnection, message: WebSocketMessage): Promise<ResumeSessionResponse> {
+    const data = validateRequest(resumeSessionSchema, message.data);
+
+    if (connection.participantId) {
+      throw createSystemError(ERROR_CODES.PARTICIPANT_ALREADY_JOINED, 'Already in a room');
+    }
+
+    // Tokens are only good for the user they were issued to
+    const session = this.heldSessions.get(data.resumeToken);
+    if (!session || session.userId !== connection.user.id) {
+      throw createAuthError(ERROR_CODES.SESSION_NOT_FOUND, 'Session not found or expired');
+    }
+
+    if (connection.ticketRoomId && connection.ticketRoomId !== session.roomId) {
+      throw createRoomError(ERROR_CODES.ROOM_ACCESS_DENIED, 'Connection ticket was issued for another room', session.roomId);
+    }
+
+    this.releaseHeldSession(session.participantId);
+
+    const participant = roomService.getParticipant(session.participantId);
+    if (!participant) {
+      throw createRoomError(ERROR_CODES.SESSION_NOT_FOUND, 'Session not found or expired', session.roomId);
+    }
+
+    this.leaveLobby(connection);
+
+    const room = roomService.getRoom(session.roomId);
+
+    connection.participantId = participant.id;
+    connection.roomId = session.roomId;
+    connection.permissions = permissionService.resolve(connection.user.role, room?.policy, session.roomId);
+
+    if (!this.roomConnections.has(session.roomId)) {
+      this.roomConnections.set(session.roomId, new Set());
+    }
+    this.roomConnections.get(session.roomId)!.add(connection.id);
+
+    this.markSessionResumed(participant);
+
+    logWebSocketEvent('info', 'Session resumed', connection.id, connection.user.id, {
+      roomId: session.roomId,
+      participantId: participant.id,
+      previousConnectionId: session.connectionId,
+    });
+
+    const activeSpeaker = room && speakerService.getActiveSpeaker(room);
+
+    // The client reattaches to these instead of publishing and subscribing again
+    return {
+      roomId: session.roomId,
+      participantId: participant.id,
+      participants: this.getVisibleParticipantInfos(participant),
+      routerRtpCapabilities: roomService.getRouterRtpCapabilities(session.roomId),
+      ...(participant.sendTransport && { sendTransportId: participant.sendTransport.id }),
+      ...(participant.recvTransport && { recvTransportId: participant.recvTransport.id }),
+      producers: Array.from(participant.producers.values()).map(producer => ({
+        id: producer.id,
+        kind: producer.kind,
+        paused: producer.paused,
+      })),
+      consumers: Array.from(participant.consumers.values()).map(consumer => ({
+        id: consumer.id,
+        producerId: consumer.producerId,
+        kind: consumer.kind,
+        paused: consumer.paused,
+      })),
+      dataProducers: Array.from(participant.dataProducers.values()).map(dataProducer => ({
+        id: dataProducer.id,
+        label: dataProducer.label,
+        protocol: dataProducer.protocol,
+      })),
+      dataConsumers: Array.from(participant.dataConsumers.values()).map(dataConsumer => ({
+        id: dataConsumer.id,
+        dataProducerId: dataConsumer.dataProducerId,
+        label: dataConsumer.label,
+        protocol: dataConsumer.protocol,
+      })),
+      ...(activeSpeaker && { activeSpeaker }),
+      ...(this.hasPermission(connection, 'moderate') && {
+        lobby: roomService.getLobbyEntries(session.roomId).map(entry => roomService.getLobbyEntryInfo(entry)),
+      }),
+    };
+  }
+
+  private getVisibleParticipantInfos(participant: Participant) {
+    // Filter out hidden participants for non-observer users
+    // Observers can see everyone, but regular users cannot see observers
+    const participants = roomService.getRoomParticipants(participant.roomId);
+    const visibleParticipants = participant.isHidden === true
+      ? participants  // Observers see all participants
+      : participants.filter(p => !p.isHidden);  // Regular users don't see hidden participants
+
+    return visibleParticipants.map(p => {
+      const info = roomService.getParticipantInfo(p);
+      // Include producer IDs so new participants can subscribe to existing streams
+      const producers = Array.from(p.producers.values()).map(prod => ({
+        id: prod.id,
+        kind: prod.kind,
+        paused: prod.paused
+      }));
+      const dataProducers = Array.from(p.dataProducers.values()).map(dataProd => ({
+        id: dataProd.id,
+        label: dataProd.label,
+        protocol: dataProd.protocol,
+      }));
+      return { ...info, producers, dataProducers };
+    });
+  }
+
+  private enterLobby(
+    connection: WebSocketConnection,
+    roomId: string,
+    displayName: string,
+    metadata?: Record<string, any>
+  ): any {
+    // Repeated joinRoom requests while waiting keep the original place in the lobby
+    if (connection.lobbyId && connection.lobbyRoomId === roomId) {
+      return { roomId, status: 'waiting', lobbyId: connection.lobbyId };
+    }
+
+    this.leaveLobby(connection);
+
+    const entry = roomService.addToLobby(roomId, connection.user.id, connection.user, displayName, metadata);
+    connection.lobbyId = entry.id;
+    connection.lobbyRoomId = roomId;
+
+    logWebSocketEvent('info', 'Join held in lobby for moderator approval', connection.id, connection.user.id, {
+      roomId,
+      lobbyId: entry.id,
+    });
+
+    this.sendToModerators(roomId, {
+      type: 'lobbyParticipantWaiting',
+      data: {
+        roomId,
+        entry: roomService.getLobbyEntryInfo(entry),
+      },
+    });
+
+    return { roomId, status: 'waiting', lobbyId: entry.id };
+  }
+
+  private leaveLobby(connection: WebSocketConnection): void {
+    const { lobbyId, lobbyRoomId } = connection;
+    if (!lobbyId || !lobbyRoomId) {
+      return;
+    }
+
+    delete connection.lobbyId;
+    delete connection.lobbyRoomId;
+
+    if (roomService.removeFromLobby(lobbyRoomId, lobbyId)) {
+      this.sendToModerators(lobbyRoomId, {
+        type: 'lobbyParticipantLeft',
+        data: { roomId: lobbyRoomId, lobbyId, outcome: 'left' },
+      });
+    }
+  }
+
   private async handleLeaveRoom(connection: WebSocketConnection, message: WebSocketMessage): Promise<any> {
     const data = validateRequest(leaveRoomSchema, message.data);
+
+    // Leaving while still in the lobby only withdraws the join request
+    if (connection.lobbyId && connection.lobbyRoomId === data.roomId) {
+      this.leaveLobby(connection);
+      return { success: true };
+    }
     
     if (!connection.participantId || !connection.roomId) {
       throw createSystemError(ERROR_CODES.PARTICIPANT_NOT_IN_ROOM, 'Not in a room');
@@ -517,7 +955,7 @@ export class WebSocketService {
     }
 
     // Send webhook
-    await webhookService.sendParticipantLeft(
+    void webhookService.sendParticipantLeft(
       data.roomId,
       connection.participantId,
       connection.user.id,
@@ -667,6 +1105,17 @@ export class WebSocketService {
       throw createSystemError(ERROR_CODES.PARTICIPANT_NOT_IN_ROOM, 'Not in a room');
     }
 
+    this.requirePermission(connection, permissionService.getPublishPermission(data.kind, data.appData));
+
+    if (data.appData?.source === 'screen') {
+      const entitlements = await this.getEntitlements(connection);
+      if (!entitlements.canScreenShare) {
+        throw createAuthError(ERROR_CODES.ENTITLEMENT_DENIED, 'Not entitled to share the screen', {
+          entitlement: 'canScreenShare',
+        });
+      }
+    }
+
     const rtpParameters: any = {
       codecs: data.rtpParameters.codecs,
       headerExtensions: data.rtpParameters.headerExtensions || [],
@@ -728,6 +1177,7 @@ export class WebSocketService {
 
     producerInfo.producer.close();
     participant.producers.delete(data.producerId);
+    await roomService.updateMediaState(participant);
 
     // Notify other participants
     this.broadcastToRoom(data.roomId, {
@@ -742,6 +1192,80 @@ export class WebSocketService {
     return { success: true };
   }
 
+  private async handleProduceData(connection: WebSocketConnection, message: WebSocketMessage): Promise<any> {
+    const data = validateRequest(produceDataSchema, message.data);
+
+    if (!connection.participantId || !connection.roomId) {
+      throw createSystemError(ERROR_CODES.PARTICIPANT_NOT_IN_ROOM, 'Not in a room');
+    }
+
+    this.requirePermission(connection, 'publishData');
+
+    const sctpStreamParameters: any = { streamId: data.sctpStreamParameters.streamId };
+    if (data.sctpStreamParameters.ordered !== undefined) {
+      sctpStreamParameters.ordered = data.sctpStreamParameters.ordered;
+    }
+    if (data.sctpStreamParameters.maxPacketLifeTime !== undefined) {
+      sctpStreamParameters.maxPacketLifeTime = data.sctpStreamParameters.maxPacketLifeTime;
+    }
+    if (data.sctpStreamParameters.maxRetransmits !== undefined) {
+      sctpStreamParameters.maxRetransmits = data.sctpStreamParameters.maxRetransmits;
+    }
+
+    const dataProducerInfo = await roomService.createDataProducer(
+      data.roomId,
+      connection.participantId,
+      sctpStreamParameters,
+      data.label,
+      data.protocol,
+      data.appData
+    );
+
+    // Notify other participants
+    this.broadcastToRoom(data.roomId, {
+      type: 'dataProducerCreated',
+      data: {
+        roomId: data.roomId,
+        participantId: connection.participantId,
+        dataProducer: {
+          id: dataProducerInfo.id,
+          label: dataProducerInfo.label,
+          protocol: dataProducerInfo.protocol,
+          appData: dataProducerInfo.appData,
+        },
+      },
+    }, connection.id);
+
+    return {
+      dataProducerId: dataProducerInfo.id,
+    };
+  }
+
+  private async handleConsumeData(connection: WebSocketConnection, message: WebSocketMessage): Promise<any> {
+    const data = validateRequest(consumeDataSchema, message.data);
+
+    if (!connection.participantId || !connection.roomId) {
+      throw createSystemError(ERROR_CODES.PARTICIPANT_NOT_IN_ROOM, 'Not in a room');
+    }
+
+    this.requirePermission(connection, 'subscribe');
+
+    const dataConsumerInfo = await roomService.createDataConsumer(
+      data.roomId,
+      connection.participantId,
+      data.dataProducerId
+    );
+
+    return {
+      dataConsumerId: dataConsumerInfo.id,
+      dataProducerId: dataConsumerInfo.dataProducerId,
+      sctpStreamParameters: dataConsumerInfo.sctpStreamParameters,
+      label: dataConsumerInfo.label,
+      protocol: dataConsumerInfo.protocol,
+      appData: dataConsumerInfo.appData,
+    };
+  }
+
   private async handleSubscribe(connection: WebSocketConnection, message: WebSocketMessage): Promise<any> {
     const data = validateRequest(subscribeSchema, message.data);
     
@@ -749,6 +1273,8 @@ export class WebSocketService {
       throw createSystemError(ERROR_CODES.PARTICIPANT_NOT_IN_ROOM, 'Not in a room');
     }
 
+    this.requirePermission(connection, 'subscribe');
+
     // Get the producer info to retrieve appData (for screen share detection)
     const producerInfo = roomService.getProducerInfo(data.producerId);
     
@@ -817,6 +1343,8 @@ export class WebSocketService {
       throw createSystemError(ERROR_CODES.PARTICIPANT_NOT_IN_ROOM, 'Not in a room');
     }
 
+    this.requirePermission(connection, 'subscribe');
+
     const participant = roomService.getParticipant(connection.participantId);
     if (!participant) {
       throw createSystemError(ERROR_CODES.PARTICIPANT_NOT_FOUND, 'Participant not found');
@@ -840,6 +1368,8 @@ export class WebSocketService {
       throw createSystemError(ERROR_CODES.PARTICIPANT_NOT_IN_ROOM, 'Not in a room');
     }
 
+    this.requirePermission(connection, 'subscribe');
+
     const participant = roomService.getParticipant(connection.participantId);
     if (!participant) {
       throw createSystemError(ERROR_CODES.PARTICIPANT_NOT_FOUND, 'Participant not found');
@@ -876,6 +1406,7 @@ export class WebSocketService {
     // Pause the producer on the server side
     await producerInfo.producer.pause();
     producerInfo.paused = true;
+    await roomService.updateMediaState(participant);
 
     logWebSocketEvent('info', 'Producer paused', connection.id, connection.user.id, {
       producerId: data.producerId,
@@ -913,9 +1444,15 @@ export class WebSocketService {
       throw createSystemError(ERROR_CODES.PRODUCER_NOT_FOUND, 'Producer not found');
     }
 
+    // Only a moderator can lift a mute or disabled camera
+    if (roomService.isMutedByModerator(participant, producerInfo)) {
+      throw createProducerError(ERROR_CODES.PRODUCER_PAUSED_BY_MODERATOR, 'Producer was paused by a moderator', data.producerId, connection.roomId);
+    }
+
     // Resume the producer on the server side
     await producerInfo.producer.resume();
     producerInfo.paused = false;
+    await roomService.updateMediaState(participant);
 
     logWebSocketEvent('info', 'Producer resumed', connection.id, connection.user.id, {
       producerId: data.producerId,
@@ -943,6 +1480,8 @@ export class WebSocketService {
       throw createSystemError(ERROR_CODES.PARTICIPANT_NOT_IN_ROOM, 'Not in a room');
     }
 
+    this.requirePermission(connection, 'subscribe');
+
     const participant = roomService.getParticipant(connection.participantId);
     if (!participant) {
       throw createSystemError(ERROR_CODES.PARTICIPANT_NOT_FOUND, 'Participant not found');
@@ -961,37 +1500,982 @@ export class WebSocketService {
     return { success: true };
   }
 
-  private handleDisconnection(connection: WebSocketConnection): void {
-    if (connection.participantId && connection.roomId) {
-      // Handle participant leaving room
-      roomService.leaveRoom(connection.roomId, connection.participantId)
-        .catch(error => {
-          logWebSocketEvent('error', 'Failed to handle participant leave on disconnect', connection.id, connection.user.id, {
-            error: error instanceof Error ? error.message : String(error),
-          });
-        });
+  private async handleMuteParticipant(connection: WebSocketConnection, message: WebSocketMessage): Promise<any> {
+    const data = validateRequest(muteParticipantSchema, message.data);
+    this.requireModerator(connection, data.roomId);
 
-      // Notify other participants
-      this.broadcastToRoom(connection.roomId, {
-        type: 'participantLeft',
-        data: {
-          roomId: connection.roomId,
-          participantId: connection.participantId,
-        },
-      }, connection.id);
+    const producers = await roomService.muteParticipant(data.roomId, data.participantId);
+    const producerIds = producers.map(p => p.id);
 
-      // Remove from room connections
-      this.roomConnections.get(connection.roomId)?.delete(connection.id);
-    }
+    this.sendToParticipant(data.roomId, data.participantId, {
+      type: 'mutedByModerator',
+      data: {
+        roomId: data.roomId,
+        moderatorId: connection.participantId,
+        producerIds,
+      },
+    });
+
+    this.broadcastParticipantUpdate(data.roomId, data.participantId, { isAudioEnabled: false });
+
+    logWebSocketEvent('info', 'Participant muted by moderator', connection.id, connection.user.id, {
+      roomId: data.roomId,
+      participantId: data.participantId,
+      producerIds,
+    });
+
+    return { success: true, producerIds };
+  }
+
+  private async handleDisableParticipantVideo(connection: WebSocketConnection, message: WebSocketMessage): Promise<any> {
+    const data = validateRequest(disableParticipantVideoSchema, message.data);
+    this.requireModerator(connection, data.roomId);
+
+    const producers = await roomService.disableParticipantVideo(data.roomId, data.participantId);
+    const producerIds = producers.map(p => p.id);
+
+    this.sendToParticipant(data.roomId, data.participantId, {
+      type: 'videoDisabledByModerator',
+      data: {
+        roomId: data.roomId,
+        moderatorId: connection.participantId,
+        producerIds,
+      },
+    });
+
+    this.broadcastParticipantUpdate(data.roomId, data.participantId, { isVideoEnabled: false });
+
+    logWebSocketEvent('info', 'Participant video disabled by moderator', connection.id, connection.user.id, {
+      roomId: data.roomId,
+      participantId: data.participantId,
+      producerIds,
+    });
+
+    return { success: true, producerIds };
+  }
+
+  private handleUnmuteParticipant(connection: WebSocketConnection, message: WebSocketMessage): any {
+    const data = validateRequest(unmuteParticipantSchema, message.data);
+    this.requireModerator(connection, data.roomId);
+
+    const producerIds = roomService.unmuteParticipant(data.roomId, data.participantId);
+
+    this.sendToParticipant(data.roomId, data.participantId, {
+      type: 'unmutedByModerator',
+      data: {
+        roomId: data.roomId,
+        moderatorId: connection.participantId,
+        producerIds,
+      },
+    });
+
+    logWebSocketEvent('info', 'Participant unmuted by moderator', connection.id, connection.user.id, {
+      roomId: data.roomId,
+      participantId: data.participantId,
+      producerIds,
+    });
+
+    return { success: true, producerIds };
+  }
+
+  private handleEnableParticipantVideo(connection: WebSocketConnection, message: WebSocketMessage): any {
+    const data = validateRequest(enableParticipantVideoSchema, message.data);
+    this.requireModerator(connection, data.roomId);
+
+    const producerIds = roomService.enableParticipantVideo(data.roomId, data.participantId);
+
+    this.sendToParticipant(data.roomId, data.participantId, {
+      type: 'videoEnabledByModerator',
+      data: {
+        roomId: data.roomId,
+        moderatorId: connection.participantId,
+        producerIds,
+      },
+    });
+
+    logWebSocketEvent('info', 'Participant video enabled by moderator', connection.id, connection.user.id, {
+      roomId: data.roomId,
+      participantId: data.participantId,
+      producerIds,
+    });
+
+    return { success: true, producerIds };
+  }
+
+  private async handleStopScreenShare(connection: WebSocketConnection, message: WebSocketMessage): Promise<any> {
+    const data = validateRequest(stopScreenShareSchema, message.data);
+    this.requireModerator(connection, data.roomId);
+
+    const producers = await roomService.stopScreenShare(data.roomId, data.participantId);
+    const producerIds = producers.map(p => p.id);
+
+    this.sendToParticipant(data.roomId, data.participantId, {
+      type: 'screenShareStoppedByModerator',
+      data: {
+        roomId: data.roomId,
+        moderatorId: connection.participantId,
+        producerIds,
+      },
+    });
+
+    // The producers are gone, so consumers elsewhere in the room must drop them too
+    const targetConnectionId = this.getParticipantConnectionId(data.roomId, data.participantId);
+    for (const producerId of producerIds) {
+      this.broadcastToRoom(data.roomId, {
+        type: 'producerClosed',
+        data: {
+          roomId: data.roomId,
+          participantId: data.participantId,
+          producerId,
+        },
+      }, targetConnectionId);
+    }
+
+    this.broadcastParticipantUpdate(data.roomId, data.participantId, { isScreenSharing: false });
+
+    logWebSocketEvent('info', 'Participant screen share stopped by moderator', connection.id, connection.user.id, {
+      roomId: data.roomId,
+      participantId: data.participantId,
+      producerIds,
+    });
 
-    this.connections.delete(connection.id);
+    return { success: true, producerIds };
   }
 
-  private closeConnection(connectionId: string, reason: string): void {
+  private async handleRemoveParticipant(connection: WebSocketConnection, message: WebSocketMessage): Promise<any> {
+    const data = validateRequest(removeParticipantSchema, message.data);
+    this.requireModerator(connection, data.roomId);
+
+    if (data.participantId === connection.participantId) {
+      throw createValidationError('Cannot remove yourself, use leaveRoom instead', 'participantId');
+    }
+
+    const participant = roomService.getParticipant(data.participantId);
+    if (!participant || participant.roomId !== data.roomId) {
+      throw createParticipantError(ERROR_CODES.PARTICIPANT_NOT_FOUND, 'Participant not found', data.participantId, data.roomId);
+    }
+
+    await this.removeParticipant(data.roomId, data.participantId, {
+      userId: connection.user.id,
+      ...(connection.participantId && { participantId: connection.participantId }),
+    }, data.reason);
+
+    logWebSocketEvent('info', 'Participant removed by moderator', connection.id, connection.user.id, {
+      roomId: data.roomId,
+      participantId: data.participantId,
+      reason: data.reason,
+    });
+
+    return { success: true };
+  }
+
+  // Removes a participant on behalf of a moderator, or of Django through the admin API when
+  // removedBy has no participantId. The removed participant's socket stays open.
+  async removeParticipant(
+    roomId: string,
+    participantId: string,
+    removedBy: { userId: string; participantId?: string },
+    reason?: string
+  ): Promise<void> {
+    const participant = roomService.getParticipant(participantId);
+    if (!participant || participant.roomId !== roomId) {
+      throw createParticipantError(ERROR_CODES.PARTICIPANT_NOT_FOUND, 'Participant not found', participantId, roomId);
+    }
+
+    this.releaseHeldSession(participantId);
+
+    const targetConnectionId = this.getParticipantConnectionId(roomId, participantId);
+    if (targetConnectionId) {
+      this.sendMessage(targetConnectionId, {
+        type: 'removedByModerator',
+        data: {
+          roomId,
+          ...(removedBy.participantId && { moderatorId: removedBy.participantId }),
+          ...(reason && { reason }),
+        },
+      });
+    }
+
+    // Log participant removal event (optional - skip if database not available)
+    try {
+      await databaseService.logRoomEvent({
+        id: uuidv4(),
+        room_id: roomId,
+        participant_id: participantId,
+        event_type: 'participant.removed',
+        event_data: {
+          userId: participant.userId,
+          removedBy: removedBy.userId,
+          reason,
+        },
+        created_at: new Date(),
+      });
+    } catch (error) {
+      // Ignore database errors in development
+      logRoomEvent('warn', 'Failed to log participant removal event', roomId, participantId, {
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+
+    // Send webhook
+    void webhookService.sendParticipantLeft(
+      roomId,
+      participantId,
+      participant.userId,
+      new Date().toISOString()
+    );
+
+    // Notify other participants
+    this.broadcastToRoom(roomId, {
+      type: 'participantLeft',
+      data: {
+        roomId,
+        participantId,
+      },
+    }, targetConnectionId);
+
+    await roomService.leaveRoom(roomId, participantId);
+
+    // Detach the removed participant's socket from the room without closing it
+    const targetConnection = targetConnectionId ? this.connections.get(targetConnectionId) : undefined;
+    if (targetConnection) {
+      this.roomConnections.get(roomId)?.delete(targetConnection.id);
+      delete targetConnection.participantId;
+      delete targetConnection.roomId;
+    }
+
+    metricsService.incrementParticipantLeave(roomId);
+  }
+
+  // Ends a class from the admin API: everyone is told, sockets stay open but leave the room
+  async endRoom(roomId: string, reason?: string): Promise<{ participantCount: number }> {
+    const room = roomService.getRoom(roomId);
+    if (!room) {
+      throw createRoomError(ERROR_CODES.ROOM_NOT_FOUND, 'Room not found', roomId);
+    }
+
+    const participantCount = room.participants.size;
+
+    this.broadcastToRoom(roomId, {
+      type: 'roomEnded',
+      data: {
+        roomId,
+        ...(reason && { reason }),
+      },
+    });
+
+    for (const participantId of room.participants.keys()) {
+      this.releaseHeldSession(participantId);
+    }
+
+    for (const connectionId of this.roomConnections.get(roomId) ?? []) {
+      const connection = this.connections.get(connectionId);
+      if (connection) {
+        delete connection.participantId;
+        delete connection.roomId;
+      }
+    }
+    this.roomConnections.delete(roomId);
+
+    for (const entry of roomService.getLobbyEntries(roomId)) {
+      const waiting = this.getLobbyConnection(entry.id);
+      if (waiting) {
+        delete waiting.lobbyId;
+        delete waiting.lobbyRoomId;
+
+        this.sendMessage(waiting.id, {
+          type: 'lobbyDenied',
+          data: {
+            roomId,
+            reason: 'Room ended',
+          },
+        });
+      }
+    }
+
+    await roomService.deleteRoom(roomId);
+    void webhookService.sendRoomEnded(roomId, new Date().toISOString(), room.instanceId);
+
+    logRoomEvent('info', 'Room ended', roomId, undefined, {
+      participantCount,
+      reason,
+    });
+
+    return { participantCount };
+  }
+
+  // Another instance hosts the room now: everyone here is sent there and the local copy is closed
+  private async handleRoomOwnershipLost(roomId: string, owner: ClusterInstance | null): Promise<void> {
+    const room = roomService.getRoom(roomId);
+    if (!room) {
+      return;
+    }
+
+    for (const participantId of room.participants.keys()) {
+      this.releaseHeldSession(participantId);
+    }
+
+    const connections = [
+      ...Array.from(this.roomConnections.get(roomId) ?? [], id => this.connections.get(id)),
+      ...roomService.getLobbyEntries(roomId).map(entry => this.getLobbyConnection(entry.id)),
+    ];
+    for (const connection of connections) {
+      if (!connection) {
+        continue;
+      }
+
+      delete connection.participantId;
+      delete connection.roomId;
+      delete connection.lobbyId;
+      delete connection.lobbyRoomId;
+
+      if (owner) {
+        this.redirectToInstance(connection, roomId, owner);
+      } else {
+        this.sendMessage(connection.id, {
+          type: 'roomEnded',
+          data: {
+            roomId,
+            reason: 'Room moved to another instance',
+          },
+        });
+      }
+    }
+    this.roomConnections.delete(roomId);
+
+    try {
+      await roomService.deleteRoom(roomId);
+    } catch (error) {
+      logRoomEvent('error', 'Failed to close room taken over by another instance', roomId, undefined, {
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  // Shows a notice from Django to everyone in the room
+  broadcastNotice(roomId: string, message: string, level: 'info' | 'warning' | 'critical'): void {
+    if (!roomService.getRoom(roomId)) {
+      throw createRoomError(ERROR_CODES.ROOM_NOT_FOUND, 'Room not found', roomId);
+    }
+
+    this.broadcastToRoom(roomId, {
+      type: 'notice',
+      data: {
+        roomId,
+        message,
+        level,
+        sentAt: new Date().toISOString(),
+      },
+    });
+
+    logRoomEvent('info', 'Notice broadcast', roomId, undefined, { level });
+  }
+
+  private requireModerator(connection: WebSocketConnection, roomId: string): void {
+    this.requireRoomPermission(connection, roomId, 'moderate');
+  }
+
+  // The permission only counts in the room the connection has joined
+  private requireRoomPermission(connection: WebSocketConnection, roomId: string, permission: Permission): void {
+    if (!connection.participantId || connection.roomId !== roomId) {
+      throw createRoomError(ERROR_CODES.PARTICIPANT_NOT_IN_ROOM, 'Not in a room', roomId);
+    }
+
+    this.requirePermission(connection, permission);
+  }
+
+  private requirePermission(connection: WebSocketConnection, permission: Permission): void {
+    if (!this.hasPermission(connection, permission)) {
+      logWebSocketEvent('warn', 'Permission denied', connection.id, connection.user.id, {
+        role: connection.user.role,
+        permission,
+        roomId: connection.roomId,
+      });
+      throw createAuthError(ERROR_CODES.AUTH_INSUFFICIENT_PERMISSIONS, 'Insufficient permissions', { permission });
+    }
+  }
+
+  // Asked once per connection, the answer holds until the user reconnects
+  private getEntitlements(connection: WebSocketConnection): Promise<UserEntitlements> {
+    if (!connection.entitlements) {
+      const entitlements = authService.checkUserEntitlements(connection.user.id);
+      connection.entitlements = entitlements;
+      // Failures are not kept, the next request asks Django again
+      entitlements.catch(() => {
+        if (connection.entitlements === entitlements) {
+          delete connection.entitlements;
+        }
+      });
+    }
+    return connection.entitlements;
+  }
+
+  // Outside a room only the role's defaults apply
+  private hasPermission(connection: WebSocketConnection, permission: Permission): boolean {
+    const permissions = (connection.roomId && connection.permissions) ||
+      permissionService.resolve(connection.user.role);
+    return permissions.has(permission);
+  }
+
+  private async handleAdmitParticipant(connection: WebSocketConnection, message: WebSocketMessage): Promise<any> {
+    const data = validateRequest(admitParticipantSchema, message.data);
+    this.requireModerator(connection, data.roomId);
+
+    const entry = roomService.getLobbyEntry(data.roomId, data.lobbyId);
+    if (!entry) {
+      throw createRoomError(ERROR_CODES.LOBBY_ENTRY_NOT_FOUND, 'Lobby entry not found', data.roomId);
+    }
+
+    const admitted = await this.admitLobbyEntry(connection, entry);
+
+    return { success: admitted };
+  }
+
+  private handleDenyParticipant(connection: WebSocketConnection, message: WebSocketMessage): any {
+    const data = validateRequest(denyParticipantSchema, message.data);
+    this.requireModerator(connection, data.roomId);
+
+    const entry = roomService.getLobbyEntry(data.roomId, data.lobbyId);
+    if (!entry) {
+      throw createRoomError(ERROR_CODES.LOBBY_ENTRY_NOT_FOUND, 'Lobby entry not found', data.roomId);
+    }
+
+    this.denyLobbyEntry(connection, entry, data.reason);
+
+    return { success: true };
+  }
+
+  private async handleAdmitAll(connection: WebSocketConnection, message: WebSocketMessage): Promise<any> {
+    const data = validateRequest(admitAllSchema, message.data);
+    this.requireModerator(connection, data.roomId);
+
+    // Admit one at a time so room capacity is checked against each join
+    let admitted = 0;
+    for (const entry of roomService.getLobbyEntries(data.roomId)) {
+      if (await this.admitLobbyEntry(connection, entry)) {
+        admitted++;
+      }
+    }
+
+    return { admitted };
+  }
+
+  private handleDenyAll(connection: WebSocketConnection, message: WebSocketMessage): any {
+    const data = validateRequest(denyAllSchema, message.data);
+    this.requireModerator(connection, data.roomId);
+
+    const entries = roomService.getLobbyEntries(data.roomId);
+    for (const entry of entries) {
+      this.denyLobbyEntry(connection, entry, data.reason);
+    }
+
+    return { denied: entries.length };
+  }
+
+  private async admitLobbyEntry(moderator: WebSocketConnection, entry: LobbyEntry): Promise<boolean> {
+    roomService.removeFromLobby(entry.roomId, entry.id);
+    this.sendToModerators(entry.roomId, {
+      type: 'lobbyParticipantLeft',
+      data: { roomId: entry.roomId, lobbyId: entry.id, outcome: 'admitted' },
+    });
+
+    const waiting = this.getLobbyConnection(entry.id);
+    if (!waiting) {
+      return false;
+    }
+
+    delete waiting.lobbyId;
+    delete waiting.lobbyRoomId;
+
+    try {
+      const joinData = await this.completeJoin(waiting, entry.roomId, entry.displayName, entry.metadata);
+      this.sendMessage(waiting.id, {
+        type: 'lobbyAdmitted',
+        data: joinData,
+      });
+    } catch (error) {
+      logWebSocketEvent('error', 'Failed to admit participant from lobby', waiting.id, waiting.user.id, {
+        roomId: entry.roomId,
+        lobbyId: entry.id,
+        error: error instanceof Error ? error.message : String(error),
+      });
+
+      this.sendMessage(waiting.id, {
+        type: 'lobbyDenied',
+        data: {
+          roomId: entry.roomId,
+          reason: error instanceof Error ? error.message : String(error),
+        },
+      });
+      return false;
+    }
+
+    logWebSocketEvent('info', 'Participant admitted from lobby', moderator.id, moderator.user.id, {
+      roomId: entry.roomId,
+      lobbyId: entry.id,
+      userId: entry.userId,
+    });
+
+    return true;
+  }
+
+  private denyLobbyEntry(moderator: WebSocketConnection, entry: LobbyEntry, reason?: string): void {
+    roomService.removeFromLobby(entry.roomId, entry.id);
+    this.sendToModerators(entry.roomId, {
+      type: 'lobbyParticipantLeft',
+      data: { roomId: entry.roomId, lobbyId: entry.id, outcome: 'denied' },
+    });
+
+    const waiting = this.getLobbyConnection(entry.id);
+    if (waiting) {
+      delete waiting.lobbyId;
+      delete waiting.lobbyRoomId;
+
+      this.sendMessage(waiting.id, {
+        type: 'lobbyDenied',
+        data: {
+          roomId: entry.roomId,
+          ...(reason && { reason }),
+        },
+      });
+    }
+
+    logWebSocketEvent('info', 'Participant denied from lobby', moderator.id, moderator.user.id, {
+      roomId: entry.roomId,
+      lobbyId: entry.id,
+      userId: entry.userId,
+      reason,
+    });
+  }
+
+  private async handleSendChatMessage(connection: WebSocketConnection, message: WebSocketMessage): Promise<any> {
+    const data = validateRequest(sendChatMessageSchema, message.data);
+
+    if (!connection.participantId || connection.roomId !== data.roomId) {
+      throw createRoomError(ERROR_CODES.PARTICIPANT_NOT_IN_ROOM, 'Not in a room', data.roomId);
+    }
+
+    this.requirePermission(connection, 'chat');
+
+    const sender = roomService.getParticipant(connection.participantId);
+    if (!sender) {
+      throw createParticipantError(ERROR_CODES.PARTICIPANT_NOT_FOUND, 'Participant not found', connection.participantId, data.roomId);
+    }
+
+    let recipient;
+    if (data.recipientId) {
+      recipient = roomService.getParticipant(data.recipientId);
+      if (!recipient || recipient.roomId !== data.roomId) {
+        throw createParticipantError(ERROR_CODES.PARTICIPANT_NOT_FOUND, 'Recipient not found', data.recipientId, data.roomId);
+      }
+    }
+
+    const chatMessage = await chatService.sendMessage(data.roomId, sender, data.content, recipient);
+
+    const event = {
+      type: 'chatMessage',
+      data: {
+        roomId: data.roomId,
+        message: chatMessage,
+      },
+    };
+
+    if (recipient) {
+      this.sendToParticipant(data.roomId, recipient.id, event);
+    } else {
+      this.broadcastToRoom(data.roomId, event, connection.id);
+    }
+
+    return { message: chatMessage };
+  }
+
+  private async handleGetChatHistory(connection: WebSocketConnection, message: WebSocketMessage): Promise<any> {
+    const data = validateRequest(getChatHistorySchema, message.data);
+
+    if (!connection.participantId || connection.roomId !== data.roomId) {
+      throw createRoomError(ERROR_CODES.PARTICIPANT_NOT_IN_ROOM, 'Not in a room', data.roomId);
+    }
+
+    // History is per room, not per participant, so late joiners see earlier messages
+    return await chatService.getHistory(
+      data.roomId,
+      connection.user.id,
+      data.limit ?? 50,
+      data.before ? new Date(data.before) : undefined
+    );
+  }
+
+  private async handleDeleteChatMessage(connection: WebSocketConnection, message: WebSocketMessage): Promise<any> {
+    const data = validateRequest(deleteChatMessageSchema, message.data);
+    this.requireModerator(connection, data.roomId);
+
+    const deleted = await chatService.deleteMessage(data.roomId, data.messageId, connection.user.id);
+    if (!deleted) {
+      throw createRoomError(ERROR_CODES.CHAT_MESSAGE_NOT_FOUND, 'Chat message not found', data.roomId);
+    }
+
+    const event = {
+      type: 'chatMessageDeleted',
+      data: {
+        roomId: data.roomId,
+        messageId: deleted.id,
+        deletedBy: connection.user.id,
+      },
+    };
+
+    // Direct messages were only ever seen by their two participants
+    if (deleted.recipientId) {
+      this.sendToParticipant(data.roomId, deleted.senderId, event);
+      this.sendToParticipant(data.roomId, deleted.recipientId, event);
+    } else {
+      this.broadcastToRoom(data.roomId, event, connection.id);
+    }
+
+    return { success: true };
+  }
+
+  private async handleStartRecording(connection: WebSocketConnection, message: WebSocketMessage): Promise<any> {
+    const data = validateRequest(startRecordingSchema, message.data);
+    this.requireRoomPermission(connection, data.roomId, 'record');
+
+    const policy = roomService.getRoom(data.roomId)?.policy;
+    if (!policy?.allowRecording) {
+      throw createRoomError(ERROR_CODES.RECORDING_NOT_ALLOWED, 'Recording is not allowed in this room', data.roomId);
+    }
+
+    const recording = await roomService.startRecording(data.roomId, connection.user.id);
+
+    logWebSocketEvent('info', 'Recording started', connection.id, connection.user.id, {
+      roomId: data.roomId,
+      recordingId: recording.id,
+    });
+
+    this.broadcastToRoom(data.roomId, {
+      type: 'recordingStarted',
+      data: {
+        roomId: data.roomId,
+        recordingId: recording.id,
+        startedAt: recording.startedAt.toISOString(),
+      },
+    }, connection.id);
+
+    return {
+      recordingId: recording.id,
+      startedAt: recording.startedAt.toISOString(),
+      trackCount: recording.tracks.size,
+    };
+  }
+
+  private async handleStopRecording(connection: WebSocketConnection, message: WebSocketMessage): Promise<any> {
+    const data = validateRequest(stopRecordingSchema, message.data);
+    this.requireRoomPermission(connection, data.roomId, 'record');
+
+    const result = await roomService.stopRecording(data.roomId);
+
+    logWebSocketEvent('info', 'Recording stopped', connection.id, connection.user.id, {
+      roomId: data.roomId,
+      recordingId: result.recording.id,
+      duration: result.duration,
+    });
+
+    this.broadcastToRoom(data.roomId, {
+      type: 'recordingStopped',
+      data: {
+        roomId: data.roomId,
+        recordingId: result.recording.id,
+        stoppedAt: result.stoppedAt.toISOString(),
+        duration: result.duration,
+      },
+    }, connection.id);
+
+    return {
+      recordingId: result.recording.id,
+      stoppedAt: result.stoppedAt.toISOString(),
+      duration: result.duration,
+      fileCount: result.files.length,
+    };
+  }
+
+  private handleRouterReset(roomId: string, participantIds: string[], transports: Array<'send' | 'recv'>): void {
+    // Clients must drop the listed transports, load the new capabilities and publish/consume again
+    const message: WebSocketMessage = {
+      type: 'routerReset',
+      data: {
+        roomId,
+        reason: 'worker_died',
+        transports,
+        routerRtpCapabilities: roomService.getRouterRtpCapabilities(roomId),
+      },
+    };
+
+    for (const participantId of participantIds) {
+      this.sendToParticipant(roomId, participantId, message);
+    }
+  }
+
+  private handlePolicyChange(room: Room, closedProducers: Map<string, ProducerInfo[]>): void {
+    // Permissions were resolved against the old policy
+    for (const connectionId of this.roomConnections.get(room.id) ?? []) {
+      const connection = this.connections.get(connectionId);
+      if (connection) {
+        connection.permissions = permissionService.resolve(connection.user.role, room.policy, room.id);
+      }
+    }
+
+    this.broadcastToRoom(room.id, {
+      type: 'roomPolicyUpdated',
+      data: {
+        roomId: room.id,
+        policy: room.policy,
+      },
+    });
+
+    // Owners are told as well, their producers were closed on the server
+    for (const [participantId, producers] of closedProducers) {
+      for (const producerInfo of producers) {
+        this.broadcastToRoom(room.id, {
+          type: 'producerClosed',
+          data: {
+            roomId: room.id,
+            participantId,
+            producerId: producerInfo.id,
+            reason: 'policy',
+          },
+        });
+      }
+
+      const participant = roomService.getParticipant(participantId);
+      if (participant) {
+        this.broadcastParticipantUpdate(room.id, participantId, {
+          isAudioEnabled: participant.isAudioEnabled,
+          isVideoEnabled: participant.isVideoEnabled,
+          isScreenSharing: participant.isScreenSharing,
+        });
+      }
+    }
+  }
+
+  private handleDrain(): void {
+    const message = this.createDrainingMessage();
+    for (const connectionId of this.connections.keys()) {
+      this.sendMessage(connectionId, message);
+    }
+  }
+
+  private async handleRefreshToken(connection: WebSocketConnection, message: WebSocketMessage): Promise<any> {
+    const data = validateRequest(refreshTokenSchema, message.data);
+
+    const claims = await authService.verifyToken(data.token);
+    if (claims.user_id !== connection.user.id || claims.token_type !== 'access') {
+      throw createAuthError(ERROR_CODES.AUTH_TOKEN_INVALID, 'Token is not an access token for this user');
+    }
+
+    // Deactivated users can still hold unexpired tokens
+    const user = await authService.getUserFromDjango(claims.user_id);
+    if (!user.isActive) {
+      throw createAuthError(ERROR_CODES.AUTH_INSUFFICIENT_PERMISSIONS, 'User account is inactive');
+    }
+
+    connection.claims = claims;
+    this.scheduleTokenExpiry(connection);
+
+    logWebSocketEvent('info', 'Token refreshed', connection.id, connection.user.id, {
+      expiresAt: new Date(claims.exp * 1000).toISOString(),
+    });
+
+    return {
+      expiresAt: new Date(claims.exp * 1000).toISOString(),
+    };
+  }
+
+  private handleTokenRevoked(jti: string): void {
+    for (const connection of Array.from(this.connections.values())) {
+      if (connection.claims.jti !== jti) {
+        continue;
+      }
+
+      logWebSocketEvent('info', 'Token revoked, closing connection', connection.id, connection.user.id, { jti });
+      this.closeConnection(connection.id, 'Token revoked', TOKEN_REVOKED_CLOSE_CODE, false);
+    }
+
+    // A connection that dropped before the revocation must not be resumed either
+    for (const session of Array.from(this.heldSessions.values())) {
+      if (session.jti !== jti) {
+        continue;
+      }
+
+      clearTimeout(session.timer);
+      this.heldSessions.delete(session.resumeToken);
+      logWebSocketEvent('info', 'Token revoked, ending held session', session.connectionId, session.userId, { jti });
+      this.removeDisconnectedParticipant(session.connectionId, session.userId, session.roomId, session.participantId);
+    }
+  }
+
+  // Warns the client tokenExpiryWarning before claims.exp and closes the connection at it
+  private scheduleTokenExpiry(connection: WebSocketConnection): void {
+    clearTimeout(connection.tokenExpiryTimer);
+    delete connection.tokenExpiryTimer;
+
+    // Tokens without exp never lapse
+    if (!connection.claims.exp) {
+      return;
+    }
+
+    const expiresAt = connection.claims.exp * 1000;
+    const warnAt = expiresAt - config.session.tokenExpiryWarning;
+    const now = Date.now();
+    const target = now < warnAt ? warnAt : expiresAt;
+
+    connection.tokenExpiryTimer = setTimeout(() => {
+      const firedAt = Date.now();
+      if (firedAt >= expiresAt) {
+        logWebSocketEvent('info', 'Token expired, closing connection', connection.id, connection.user.id);
+        this.closeConnection(connection.id, 'Token expired', TOKEN_EXPIRED_CLOSE_CODE, false);
+        return;
+      }
+
+      if (target === warnAt && firedAt >= warnAt) {
+        this.sendMessage(connection.id, {
+          type: 'tokenExpiring',
+          data: {
+            expiresAt: new Date(expiresAt).toISOString(),
+            expiresIn: Math.ceil((expiresAt - firedAt) / 1000),
+          },
+        });
+      }
+
+      this.scheduleTokenExpiry(connection);
+    }, Math.min(Math.max(target - now, 0), MAX_TIMER_DELAY));
+  }
+
+  private createDrainingMessage(): WebSocketMessage {
+    const status = drainService.getStatus();
+    return {
+      type: 'serverDraining',
+      data: {
+        deadline: status.deadline,
+        reason: status.trigger === 'admin' ? 'maintenance' : 'deployment',
+      },
+    };
+  }
+
+  // Without allowResume the participant leaves right away instead of being held for resumeSession
+  private handleDisconnection(connection: WebSocketConnection, allowResume = true): void {
+    // 'error' is followed by 'close', and closeConnection gets here before either
+    if (!this.connections.delete(connection.id)) {
+      return;
+    }
+
+    clearTimeout(connection.tokenExpiryTimer);
+
+    this.leaveLobby(connection);
+
+    const { roomId, participantId } = connection;
+    if (!roomId || !participantId) {
+      return;
+    }
+
+    // Remove from room connections
+    this.roomConnections.get(roomId)?.delete(connection.id);
+
+    const participant = roomService.getParticipant(participantId);
+    if (participant && allowResume && config.session.reconnectGracePeriod > 0) {
+      this.holdSession(connection, participant);
+      return;
+    }
+
+    this.removeDisconnectedParticipant(connection.id, connection.user.id, roomId, participantId);
+  }
+
+  private holdSession(connection: WebSocketConnection, participant: Participant): void {
+    const gracePeriod = config.session.reconnectGracePeriod;
+    const session: HeldSession = {
+      resumeToken: connection.resumeToken,
+      connectionId: connection.id,
+      userId: connection.user.id,
+      jti: connection.claims.jti,
+      roomId: participant.roomId,
+      participantId: participant.id,
+      expiresAt: new Date(Date.now() + gracePeriod),
+      timer: setTimeout(() => this.expireHeldSession(session.resumeToken), gracePeriod),
+    };
+    this.heldSessions.set(session.resumeToken, session);
+
+    roomService.setParticipantReconnecting(participant.id, true);
+    if (!participant.isHidden) {
+      this.broadcastParticipantUpdate(participant.roomId, participant.id, { isReconnecting: true });
+    }
+
+    logWebSocketEvent('info', 'Holding participant for session resumption', connection.id, connection.user.id, {
+      roomId: participant.roomId,
+      participantId: participant.id,
+      expiresAt: session.expiresAt.toISOString(),
+    });
+  }
+
+  private expireHeldSession(resumeToken: string): void {
+    const session = this.heldSessions.get(resumeToken);
+    if (!session) {
+      return;
+    }
+
+    this.heldSessions.delete(resumeToken);
+
+    // The room may have been closed in the meantime
+    if (!roomService.getParticipant(session.participantId)) {
+      return;
+    }
+
+    logWebSocketEvent('info', 'Session resumption window expired', session.connectionId, session.userId, {
+      roomId: session.roomId,
+      participantId: session.participantId,
+    });
+
+    this.removeDisconnectedParticipant(session.connectionId, session.userId, session.roomId, session.participantId);
+  }
+
+  private releaseHeldSession(participantId: string): HeldSession | undefined {
+    for (const session of this.heldSessions.values()) {
+      if (session.participantId === participantId) {
+        clearTimeout(session.timer);
+        this.heldSessions.delete(session.resumeToken);
+        return session;
+      }
+    }
+    return undefined;
+  }
+
+  private markSessionResumed(participant: Participant): void {
+    roomService.setParticipantReconnecting(participant.id, false);
+    if (!participant.isHidden) {
+      this.broadcastParticipantUpdate(participant.roomId, participant.id, { isReconnecting: false });
+    }
+  }
+
+  private removeDisconnectedParticipant(connectionId: string, userId: string, roomId: string, participantId: string): void {
+    // Handle participant leaving room
+    roomService.leaveRoom(roomId, participantId)
+      .catch(error => {
+        logWebSocketEvent('error', 'Failed to handle participant leave on disconnect', connectionId, userId, {
+          error: error instanceof Error ? error.message : String(error),
+        });
+      });
+
+    // Notify other participants
+    this.broadcastToRoom(roomId, {
+      type: 'participantLeft',
+      data: {
+        roomId,
+        participantId,
+      },
+    });
+  }
+
+  private closeConnection(connectionId: string, reason: string, code: number = 1000, allowResume = true): void {
     const connection = this.connections.get(connectionId);
     if (connection) {
-      connection.ws.close(1000, reason);
-      this.handleDisconnection(connection);
+      connection.ws.close(code, reason);
+      this.handleDisconnection(connection, allowResume);
     }
   }
 
@@ -1002,15 +2486,75 @@ export class WebSocketService {
     }
   }
 
-  private sendError(connectionId: string, error: string, requestId?: string): void {
+  private sendError(connectionId: string, error: string, requestId?: string, typedError?: SFUError): void {
     this.sendMessage(connectionId, {
       type: 'error',
       error,
+      ...(typedError && { code: typedError.code }),
+      ...(typedError?.details && { details: typedError.details }),
       ...(requestId && { requestId }),
     });
   }
 
+  private getParticipantConnectionId(roomId: string, participantId: string): string | undefined {
+    const roomConnections = this.roomConnections.get(roomId);
+    if (!roomConnections) return undefined;
+
+    for (const connectionId of roomConnections) {
+      if (this.connections.get(connectionId)?.participantId === participantId) {
+        return connectionId;
+      }
+    }
+    return undefined;
+  }
+
+  private sendToParticipant(roomId: string, participantId: string, message: WebSocketMessage): void {
+    const connectionId = this.getParticipantConnectionId(roomId, participantId);
+    if (connectionId) {
+      this.sendMessage(connectionId, message);
+    }
+  }
+
+  private getLobbyConnection(lobbyId: string): WebSocketConnection | undefined {
+    for (const connection of this.connections.values()) {
+      if (connection.lobbyId === lobbyId) {
+        return connection;
+      }
+    }
+    return undefined;
+  }
+
+  private sendToModerators(roomId: string, message: WebSocketMessage): void {
+    const roomConnections = this.roomConnections.get(roomId);
+    if (!roomConnections) return;
+
+    for (const connectionId of roomConnections) {
+      const connection = this.connections.get(connectionId);
+      if (connection && this.hasPermission(connection, 'moderate')) {
+        this.sendMessage(connectionId, message);
+      }
+    }
+  }
+
+  private broadcastParticipantUpdate(roomId: string, participantId: string, updates: Partial<ParticipantInfo>): void {
+    this.broadcastToRoom(roomId, {
+      type: 'participantUpdated',
+      data: {
+        roomId,
+        participantId,
+        updates,
+      },
+    }, this.getParticipantConnectionId(roomId, participantId));
+  }
+
   private broadcastToRoom(roomId: string, message: WebSocketMessage, excludeConnectionId?: string): void {
+    this.sendToLocalRoom(roomId, message, excludeConnectionId);
+
+    // Other instances deliver it to the room's connections they hold
+    void clusterService.publishRoomEvent(roomId, message);
+  }
+
+  private sendToLocalRoom(roomId: string, message: WebSocketMessage, excludeConnectionId?: string): void {
     const roomConnections = this.roomConnections.get(roomId);
     if (!roomConnections) return;
 
@@ -1038,8 +2582,14 @@ export class WebSocketService {
       clearInterval(this.pingInterval);
     }
 
+    for (const session of this.heldSessions.values()) {
+      clearTimeout(session.timer);
+    }
+    this.heldSessions.clear();
+
     // Close all connections
     for (const connection of this.connections.values()) {
+      clearTimeout(connection.tokenExpiryTimer);
       connection.ws.close(1000, 'Server shutdown');
     }
 
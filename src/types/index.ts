@@ -1,3 +1,4 @@
+import { ChildProcess } from 'child_process';
 import { types as mediasoupTypes } from 'mediasoup';
 
 // Base types
@@ -22,18 +23,51 @@ export interface JWTClaims {
   token_type: 'access' | 'refresh';
 }
 
+// Per-user limits from Django
+export interface UserEntitlements {
+  canCreateRooms: boolean;
+  canJoinRooms: boolean;
+  canScreenShare: boolean;
+  canRecord: boolean;
+  maxRoomsPerUser: number;
+  maxParticipantsPerRoom: number;
+}
+
+// Per-room settings from Django, resolved when the room is created
+export interface RoomPolicy {
+  maxParticipants: number;
+  maxBitrate: number; // Bits per second, caps what each client sends and the initial estimate towards it
+  maxDevicesPerUser: number;
+  allowScreenSharing: boolean;
+  allowRecording: boolean;
+  requireModeratorApproval: boolean;
+  allowedKinds: Array<'audio' | 'video'>;
+  maxVideoPublishers: number; // Participants publishing camera video at once, 0 for no limit
+  permissions?: Record<string, string[]>; // Per-role replacements for the permission matrix
+}
+
 // Room types
 export interface Room {
   id: string;
   name: string;
   description?: string;
-  maxParticipants: number;
+  maxParticipants: number; // The lower of requestedMaxParticipants and the policy's maxParticipants
+  requestedMaxParticipants: number; // What the creator asked for, within their entitlements
   isActive: boolean;
   createdAt: Date;
   updatedAt: Date;
   participants: Map<string, Participant>;
-  router?: mediasoupTypes.Router;
+  router?: mediasoupTypes.Router; // Primary router: send transports, observers and recordings
+  consumerRouters: Map<string, ConsumerRouter>; // Extra routers on other workers for large rooms
   instanceId: string;
+  createdBy?: string; // User who created the room through createRoom, unset for auto-created rooms
+  policy: RoomPolicy;
+}
+
+export interface ConsumerRouter {
+  router: mediasoupTypes.Router;
+  // Producers and data producers piped in from the primary router, keyed by ID
+  pipedProducers: Map<string, Promise<void>>;
 }
 
 export interface Participant {
@@ -41,17 +75,23 @@ export interface Participant {
   userId: string;
   user: User;
   roomId: string;
+  deviceId?: string; // Tells apart the devices one user has in the room
   displayName: string;
   isAudioEnabled: boolean;
   isVideoEnabled: boolean;
   isScreenSharing: boolean;
   isHidden?: boolean; // Hidden participants (observers) are not visible to others
+  isReconnecting?: boolean; // Connection dropped, held for session resumption
   joinedAt: Date;
   lastSeen: Date;
   sendTransport?: mediasoupTypes.WebRtcTransport;
   recvTransport?: mediasoupTypes.WebRtcTransport;
+  recvRouterId?: string; // Set when the recv transport lives on one of the room's consumer routers
   producers: Map<string, ProducerInfo>;
+  moderatorMutedMedia: Set<'audio' | 'camera'>; // Muted by a moderator, the participant cannot publish or resume it
   consumers: Map<string, ConsumerInfo>;
+  dataProducers: Map<string, DataProducerInfo>;
+  dataConsumers: Map<string, DataConsumerInfo>;
   rtpCapabilities?: mediasoupTypes.RtpCapabilities;
   metadata?: Record<string, any>;
 }
@@ -77,12 +117,80 @@ export interface ConsumerInfo {
   consumer: mediasoupTypes.Consumer;
 }
 
+export interface DataProducerInfo {
+  id: string;
+  label: string;
+  protocol: string;
+  sctpStreamParameters?: mediasoupTypes.SctpStreamParameters;
+  appData: any;
+  dataProducer: mediasoupTypes.DataProducer;
+}
+
+export interface DataConsumerInfo {
+  id: string;
+  dataProducerId: string;
+  label: string;
+  protocol: string;
+  sctpStreamParameters?: mediasoupTypes.SctpStreamParameters;
+  appData: any;
+  dataConsumer: mediasoupTypes.DataConsumer;
+}
+
+// Recording types
+export interface RecordingTrack {
+  producerId: string;
+  participantId: string;
+  kind: 'audio' | 'video';
+  filePath: string;
+  rtpPort: number;
+  rtcpPort: number;
+  transport: mediasoupTypes.PlainTransport;
+  consumer: mediasoupTypes.Consumer;
+  process: ChildProcess;
+}
+
+export interface Recording {
+  id: string;
+  roomId: string;
+  startedBy: string;
+  startedAt: Date;
+  directory: string;
+  tracks: Map<string, RecordingTrack>;
+  files: string[];
+}
+
+// Lobby types
+export interface LobbyEntry {
+  id: string;
+  roomId: string;
+  userId: string;
+  user: User;
+  displayName: string;
+  requestedAt: Date;
+  metadata?: Record<string, any>;
+}
+
+// Chat types
+export interface ChatMessage {
+  id: string;
+  roomId: string;
+  senderId: string;
+  senderUserId: string;
+  senderDisplayName: string;
+  recipientId?: string; // Set for direct messages
+  recipientUserId?: string;
+  content: string;
+  createdAt: string;
+}
+
 // WebSocket message types
 export interface WebSocketMessage {
   type: string;
   data?: any;
   requestId?: string;
   error?: string;
+  code?: string; // Set on errors that carry an ERROR_CODES value
+  details?: any;
 }
 
 export interface CreateRoomRequest {
@@ -161,6 +269,66 @@ export interface RestartIceRequest {
   transportId: string;
 }
 
+export interface ModerateParticipantRequest {
+  roomId: string;
+  participantId: string;
+}
+
+export interface RemoveParticipantRequest {
+  roomId: string;
+  participantId: string;
+  reason?: string;
+}
+
+export interface ProduceDataRequest {
+  roomId: string;
+  sctpStreamParameters: mediasoupTypes.SctpStreamParameters;
+  label?: string;
+  protocol?: string;
+  appData?: Record<string, any>;
+}
+
+export interface ConsumeDataRequest {
+  roomId: string;
+  dataProducerId: string;
+}
+
+export interface LobbyDecisionRequest {
+  roomId: string;
+  lobbyId: string;
+  reason?: string;
+}
+
+export interface LobbyBulkDecisionRequest {
+  roomId: string;
+  reason?: string;
+}
+
+export interface SendChatMessageRequest {
+  roomId: string;
+  content: string;
+  recipientId?: string;
+}
+
+export interface GetChatHistoryRequest {
+  roomId: string;
+  before?: string;
+  limit?: number;
+}
+
+export interface DeleteChatMessageRequest {
+  roomId: string;
+  messageId: string;
+}
+
+export interface StartRecordingRequest {
+  roomId: string;
+}
+
+export interface StopRecordingRequest {
+  roomId: string;
+}
+
 // Response types
 export interface CreateRoomResponse {
   roomId: string;
@@ -178,15 +346,70 @@ export interface JoinRoomResponse {
 export interface ParticipantInfo {
   id: string;
   userId: string;
+  deviceId?: string;
   displayName: string;
   isAudioEnabled: boolean;
   isVideoEnabled: boolean;
   isScreenSharing: boolean;
   isHidden?: boolean; // Hidden participants (observers) are not visible to others
+  isReconnecting?: boolean;
   joinedAt: string;
   metadata?: Record<string, any>;
 }
 
+export interface LobbyEntryInfo {
+  id: string;
+  userId: string;
+  displayName: string;
+  requestedAt: string;
+  metadata?: Record<string, any>;
+}
+
+export interface LobbyWaitingResponse {
+  roomId: string;
+  status: 'waiting';
+  lobbyId: string;
+}
+
+export interface RedirectResponse {
+  roomId: string;
+  status: 'redirected';
+  instanceId: string;
+  url: string;
+}
+
+export interface ResumeSessionResponse {
+  roomId: string;
+  participantId: string;
+  participants: ParticipantInfo[];
+  routerRtpCapabilities: mediasoupTypes.RtpCapabilities;
+  // Media the held participant still owns on the server
+  sendTransportId?: string;
+  recvTransportId?: string;
+  producers: Array<{ id: string; kind: 'audio' | 'video'; paused: boolean }>;
+  consumers: Array<{ id: string; producerId: string; kind: 'audio' | 'video'; paused: boolean }>;
+  dataProducers: Array<{ id: string; label: string; protocol: string }>;
+  dataConsumers: Array<{ id: string; dataProducerId: string; label: string; protocol: string }>;
+}
+
+export interface ProduceDataResponse {
+  dataProducerId: string;
+}
+
+export interface ConsumeDataResponse {
+  dataConsumerId: string;
+  dataProducerId: string;
+  sctpStreamParameters?: mediasoupTypes.SctpStreamParameters;
+  label: string;
+  protocol: string;
+  appData?: any;
+}
+
+export interface ChatHistoryResponse {
+  messages: ChatMessage[];
+  hasMore: boolean;
+}
+
 export interface PublishResponse {
   producerId: string;
   kind: 'audio' | 'video';
@@ -240,6 +463,18 @@ export interface ProducerCreatedEvent {
   };
 }
 
+export interface DataProducerCreatedEvent {
+  type: 'dataProducerCreated';
+  roomId: string;
+  participantId: string;
+  dataProducer: {
+    id: string;
+    label: string;
+    protocol: string;
+    appData?: any;
+  };
+}
+
 export interface ProducerPausedEvent {
   type: 'producerPaused';
   roomId: string;
@@ -324,11 +559,132 @@ export interface RoomClosedEvent {
   roomId: string;
 }
 
+export interface MutedByModeratorEvent {
+  type: 'mutedByModerator';
+  roomId: string;
+  moderatorId: string;
+  producerIds: string[];
+}
+
+export interface VideoDisabledByModeratorEvent {
+  type: 'videoDisabledByModerator';
+  roomId: string;
+  moderatorId: string;
+  producerIds: string[];
+}
+
+export interface ScreenShareStoppedByModeratorEvent {
+  type: 'screenShareStoppedByModerator';
+  roomId: string;
+  moderatorId: string;
+  producerIds: string[];
+}
+
+export interface RemovedByModeratorEvent {
+  type: 'removedByModerator';
+  roomId: string;
+  moderatorId: string;
+  reason?: string;
+}
+
+export interface LobbyParticipantWaitingEvent {
+  type: 'lobbyParticipantWaiting';
+  roomId: string;
+  entry: LobbyEntryInfo;
+}
+
+export interface LobbyParticipantLeftEvent {
+  type: 'lobbyParticipantLeft';
+  roomId: string;
+  lobbyId: string;
+  outcome: 'admitted' | 'denied' | 'left';
+}
+
+export interface LobbyAdmittedEvent {
+  type: 'lobbyAdmitted';
+  roomId: string;
+  participants: ParticipantInfo[];
+  routerRtpCapabilities: mediasoupTypes.RtpCapabilities;
+}
+
+export interface LobbyDeniedEvent {
+  type: 'lobbyDenied';
+  roomId: string;
+  reason?: string;
+}
+
+export interface RedirectEvent {
+  type: 'redirect';
+  roomId: string;
+  instanceId: string;
+  url: string;
+}
+
+export interface ServerDrainingEvent {
+  type: 'serverDraining';
+  deadline: string;
+  reason: 'deployment' | 'maintenance';
+}
+
+export interface RouterResetEvent {
+  type: 'routerReset';
+  roomId: string;
+  reason: 'worker_died';
+  transports: Array<'send' | 'recv'>;
+  routerRtpCapabilities: mediasoupTypes.RtpCapabilities;
+}
+
+export interface ActiveSpeakerEvent {
+  type: 'activeSpeaker';
+  roomId: string;
+  participantId: string;
+  producerId: string;
+}
+
+export interface AudioLevelsEvent {
+  type: 'audioLevels';
+  roomId: string;
+  levels: Array<{
+    participantId: string;
+    producerId: string;
+    volume: number;
+  }>;
+}
+
+export interface ChatMessageEvent {
+  type: 'chatMessage';
+  roomId: string;
+  message: ChatMessage;
+}
+
+export interface ChatMessageDeletedEvent {
+  type: 'chatMessageDeleted';
+  roomId: string;
+  messageId: string;
+  deletedBy: string;
+}
+
+export interface RecordingStartedEvent {
+  type: 'recordingStarted';
+  roomId: string;
+  recordingId: string;
+  startedAt: string;
+}
+
+export interface RecordingStoppedEvent {
+  type: 'recordingStopped';
+  roomId: string;
+  recordingId: string;
+  stoppedAt: string;
+  duration: number;
+}
+
 export type RoomEvent = 
   | ParticipantJoinedEvent
   | ParticipantLeftEvent
   | ParticipantUpdatedEvent
   | ProducerCreatedEvent
+  | DataProducerCreatedEvent
   | ProducerPausedEvent
   | ProducerResumedEvent
   | ProducerClosedEvent
@@ -339,7 +695,24 @@ export type RoomEvent =
   | ConsumerLayersChangedEvent
   | ConsumerScoreEvent
   | ProducerScoreEvent
-  | RoomClosedEvent;
+  | RoomClosedEvent
+  | MutedByModeratorEvent
+  | VideoDisabledByModeratorEvent
+  | ScreenShareStoppedByModeratorEvent
+  | RemovedByModeratorEvent
+  | LobbyParticipantWaitingEvent
+  | LobbyParticipantLeftEvent
+  | LobbyAdmittedEvent
+  | LobbyDeniedEvent
+  | RedirectEvent
+  | ServerDrainingEvent
+  | RouterResetEvent
+  | ActiveSpeakerEvent
+  | AudioLevelsEvent
+  | ChatMessageEvent
+  | ChatMessageDeletedEvent
+  | RecordingStartedEvent
+  | RecordingStoppedEvent;
 
 // Error types
 export class SFUError extends Error {
@@ -446,8 +819,43 @@ export interface RoomEventRecord {
   created_at: Date;
 }
 
+export interface ChatMessageRecord {
+  id: string;
+  room_id: string;
+  sender_participant_id: string;
+  sender_user_id: string;
+  sender_display_name: string;
+  recipient_participant_id?: string;
+  recipient_user_id?: string;
+  content: string;
+  created_at: Date;
+  deleted_at?: Date;
+  deleted_by?: string;
+}
+
+export interface WebhookOutboxRecord {
+  id: string;
+  event: string;
+  payload: WebhookPayload;
+  attempts: number;
+  next_attempt_at: Date;
+  last_error?: string;
+  created_at: Date;
+}
+
+export interface WebhookDeadLetterRecord {
+  id: string;
+  event: string;
+  payload: WebhookPayload;
+  attempts: number;
+  last_error?: string;
+  created_at: Date;
+  failed_at: Date;
+}
+
 // Webhook types
 export interface WebhookPayload {
+  id: string; // Same on every retry and replay, so Django can drop repeats
   event: string;
   timestamp: string;
   data: any;
@@ -8,6 +8,12 @@ export const ERROR_CODES = {
   AUTH_TOKEN_EXPIRED: 'AUTH_TOKEN_EXPIRED',
   AUTH_USER_NOT_FOUND: 'AUTH_USER_NOT_FOUND',
   AUTH_INSUFFICIENT_PERMISSIONS: 'AUTH_INSUFFICIENT_PERMISSIONS',
+  AUTH_TICKET_INVALID: 'AUTH_TICKET_INVALID',
+  AUTH_TOKEN_REVOKED: 'AUTH_TOKEN_REVOKED',
+
+  // Entitlement errors
+  ENTITLEMENT_DENIED: 'ENTITLEMENT_DENIED',
+  ENTITLEMENT_QUOTA_EXCEEDED: 'ENTITLEMENT_QUOTA_EXCEEDED',
 
   // Room errors
   ROOM_NOT_FOUND: 'ROOM_NOT_FOUND',
@@ -20,28 +26,49 @@ export const ERROR_CODES = {
   PARTICIPANT_NOT_FOUND: 'PARTICIPANT_NOT_FOUND',
   PARTICIPANT_ALREADY_JOINED: 'PARTICIPANT_ALREADY_JOINED',
   PARTICIPANT_NOT_IN_ROOM: 'PARTICIPANT_NOT_IN_ROOM',
+  SESSION_NOT_FOUND: 'SESSION_NOT_FOUND',
 
   // Producer errors
   PRODUCER_NOT_FOUND: 'PRODUCER_NOT_FOUND',
   PRODUCER_ALREADY_EXISTS: 'PRODUCER_ALREADY_EXISTS',
   PRODUCER_KIND_INVALID: 'PRODUCER_KIND_INVALID',
   PRODUCER_RTP_PARAMETERS_INVALID: 'PRODUCER_RTP_PARAMETERS_INVALID',
+  PRODUCER_NOT_ALLOWED: 'PRODUCER_NOT_ALLOWED',
+  PRODUCER_LIMIT_REACHED: 'PRODUCER_LIMIT_REACHED',
+  PRODUCER_PAUSED_BY_MODERATOR: 'PRODUCER_PAUSED_BY_MODERATOR',
 
   // Consumer errors
   CONSUMER_NOT_FOUND: 'CONSUMER_NOT_FOUND',
   CONSUMER_ALREADY_EXISTS: 'CONSUMER_ALREADY_EXISTS',
   CONSUMER_RTP_CAPABILITIES_INVALID: 'CONSUMER_RTP_CAPABILITIES_INVALID',
 
+  // Data channel errors
+  DATA_PRODUCER_NOT_FOUND: 'DATA_PRODUCER_NOT_FOUND',
+  DATA_CONSUMER_NOT_FOUND: 'DATA_CONSUMER_NOT_FOUND',
+
   // Transport errors
   TRANSPORT_NOT_FOUND: 'TRANSPORT_NOT_FOUND',
   TRANSPORT_ALREADY_EXISTS: 'TRANSPORT_ALREADY_EXISTS',
   TRANSPORT_DTLS_PARAMETERS_INVALID: 'TRANSPORT_DTLS_PARAMETERS_INVALID',
   TRANSPORT_ICE_PARAMETERS_INVALID: 'TRANSPORT_ICE_PARAMETERS_INVALID',
+  TRANSPORT_SCTP_NOT_ENABLED: 'TRANSPORT_SCTP_NOT_ENABLED',
 
   // Router errors
   ROUTER_NOT_FOUND: 'ROUTER_NOT_FOUND',
   ROUTER_RTP_CAPABILITIES_INVALID: 'ROUTER_RTP_CAPABILITIES_INVALID',
 
+  // Recording errors
+  RECORDING_NOT_ALLOWED: 'RECORDING_NOT_ALLOWED',
+  RECORDING_ALREADY_ACTIVE: 'RECORDING_ALREADY_ACTIVE',
+  RECORDING_NOT_ACTIVE: 'RECORDING_NOT_ACTIVE',
+  RECORDING_ERROR: 'RECORDING_ERROR',
+
+  // Lobby errors
+  LOBBY_ENTRY_NOT_FOUND: 'LOBBY_ENTRY_NOT_FOUND',
+
+  // Chat errors
+  CHAT_MESSAGE_NOT_FOUND: 'CHAT_MESSAGE_NOT_FOUND',
+
   // Validation errors
   VALIDATION_ERROR: 'VALIDATION_ERROR',
   INVALID_REQUEST: 'INVALID_REQUEST',
@@ -50,6 +77,7 @@ export const ERROR_CODES = {
   // System errors
   INTERNAL_ERROR: 'INTERNAL_ERROR',
   SERVICE_UNAVAILABLE: 'SERVICE_UNAVAILABLE',
+  SERVER_DRAINING: 'SERVER_DRAINING',
   RATE_LIMIT_EXCEEDED: 'RATE_LIMIT_EXCEEDED',
   RESOURCE_EXHAUSTED: 'RESOURCE_EXHAUSTED',
 
@@ -118,6 +146,11 @@ export const ERROR_MESSAGES = {
   AUTH_TOKEN_EXPIRED: 'Authentication token has expired',
   AUTH_USER_NOT_FOUND: 'User not found',
   AUTH_INSUFFICIENT_PERMISSIONS: 'Insufficient permissions',
+  AUTH_TICKET_INVALID: 'Invalid or expired connection ticket',
+  AUTH_TOKEN_REVOKED: 'Authentication token has been revoked',
+
+  ENTITLEMENT_DENIED: 'Not entitled to this action',
+  ENTITLEMENT_QUOTA_EXCEEDED: 'Entitlement quota exceeded',
 
   ROOM_NOT_FOUND: 'Room not found',
   ROOM_ALREADY_EXISTS: 'Room already exists',
@@ -128,30 +161,48 @@ export const ERROR_MESSAGES = {
   PARTICIPANT_NOT_FOUND: 'Participant not found',
   PARTICIPANT_ALREADY_JOINED: 'Participant already joined',
   PARTICIPANT_NOT_IN_ROOM: 'Participant not in room',
+  SESSION_NOT_FOUND: 'Session not found or expired',
 
   PRODUCER_NOT_FOUND: 'Producer not found',
   PRODUCER_ALREADY_EXISTS: 'Producer already exists',
   PRODUCER_KIND_INVALID: 'Invalid producer kind',
   PRODUCER_RTP_PARAMETERS_INVALID: 'Invalid RTP parameters for producer',
+  PRODUCER_NOT_ALLOWED: 'Producer not allowed by room policy',
+  PRODUCER_LIMIT_REACHED: 'Too many video publishers in room',
+  PRODUCER_PAUSED_BY_MODERATOR: 'Producer was paused by a moderator',
 
   CONSUMER_NOT_FOUND: 'Consumer not found',
   CONSUMER_ALREADY_EXISTS: 'Consumer already exists',
   CONSUMER_RTP_CAPABILITIES_INVALID: 'Invalid RTP capabilities for consumer',
 
+  DATA_PRODUCER_NOT_FOUND: 'Data producer not found',
+  DATA_CONSUMER_NOT_FOUND: 'Data consumer not found',
+
   TRANSPORT_NOT_FOUND: 'Transport not found',
   TRANSPORT_ALREADY_EXISTS: 'Transport already exists',
   TRANSPORT_DTLS_PARAMETERS_INVALID: 'Invalid DTLS parameters',
   TRANSPORT_ICE_PARAMETERS_INVALID: 'Invalid ICE parameters',
+  TRANSPORT_SCTP_NOT_ENABLED: 'SCTP is not enabled on transport',
 
   ROUTER_NOT_FOUND: 'Router not found',
   ROUTER_RTP_CAPABILITIES_INVALID: 'Invalid RTP capabilities for router',
 
+  RECORDING_NOT_ALLOWED: 'Recording is not allowed in this room',
+  RECORDING_ALREADY_ACTIVE: 'Room is already being recorded',
+  RECORDING_NOT_ACTIVE: 'Room is not being recorded',
+  RECORDING_ERROR: 'Recording error',
+
+  LOBBY_ENTRY_NOT_FOUND: 'Lobby entry not found',
+
+  CHAT_MESSAGE_NOT_FOUND: 'Chat message not found',
+
   VALIDATION_ERROR: 'Validation error',
   INVALID_REQUEST: 'Invalid request',
   MISSING_REQUIRED_FIELD: 'Missing required field',
 
   INTERNAL_ERROR: 'Internal server error',
   SERVICE_UNAVAILABLE: 'Service unavailable',
+  SERVER_DRAINING: 'Server is draining and not accepting new rooms',
   RATE_LIMIT_EXCEEDED: 'Rate limit exceeded',
   RESOURCE_EXHAUSTED: 'Resource exhausted',
 
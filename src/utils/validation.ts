@@ -27,6 +27,7 @@ export const createRoomSchema = z.object({
 export const joinRoomSchema = z.object({
   roomId: flexibleUuidSchema, // Accept any non-empty string ID (Django session IDs are not UUIDs)
   displayName: z.string().min(1, 'Display name is required').max(50, 'Display name too long'),
+  deviceId: z.string().min(1).max(100, 'Device ID too long').optional(),
   metadata: z.record(z.any()).optional(),
 });
 
@@ -55,6 +56,25 @@ export const unpublishSchema = z.object({
   producerId: z.string().min(1, 'Producer ID is required'),
 });
 
+// Data channel validation schemas
+export const produceDataSchema = z.object({
+  roomId: flexibleUuidSchema, // Accept any non-empty string ID (Django session IDs are not UUIDs)
+  sctpStreamParameters: z.object({
+    streamId: z.number().int().min(0, 'Stream ID must be non-negative'),
+    ordered: z.boolean().optional(),
+    maxPacketLifeTime: z.number().int().min(0).optional(),
+    maxRetransmits: z.number().int().min(0).optional(),
+  }),
+  label: z.string().max(100, 'Label too long').optional(),
+  protocol: z.string().max(100, 'Protocol too long').optional(),
+  appData: z.record(z.any()).optional(),
+});
+
+export const consumeDataSchema = z.object({
+  roomId: flexibleUuidSchema, // Accept any non-empty string ID (Django session IDs are not UUIDs)
+  dataProducerId: z.string().min(1, 'Data producer ID is required'),
+});
+
 // Consumer validation schemas
 export const subscribeSchema = z.object({
   roomId: flexibleUuidSchema, // Accept any non-empty string ID (Django session IDs are not UUIDs)
@@ -127,6 +147,156 @@ export const getRouterRtpCapabilitiesSchema = z.object({
   roomId: flexibleUuidSchema, // Accept any non-empty string ID (Django session IDs are not UUIDs)
 });
 
+// Moderation validation schemas
+export const muteParticipantSchema = z.object({
+  roomId: flexibleUuidSchema, // Accept any non-empty string ID (Django session IDs are not UUIDs)
+  participantId: z.string().min(1, 'Participant ID is required'),
+});
+
+export const disableParticipantVideoSchema = z.object({
+  roomId: flexibleUuidSchema, // Accept any non-empty string ID (Django session IDs are not UUIDs)
+  participantId: z.string().min(1, 'Participant ID is required'),
+});
+
+export const unmuteParticipantSchema = z.object({
+  roomId: flexibleUuidSchema, // Accept any non-empty string ID (Django session IDs are not UUIDs)
+  participantId: z.string().min(1, 'Participant ID is required'),
+});
+
+export const enableParticipantVideoSchema = z.object({
+  roomId: flexibleUuidSchema, // Accept any non-empty string ID (Django session IDs are not UUIDs)
+  participantId: z.string().min(1, 'Participant ID is required'),
+});
+
+export const stopScreenShareSchema = z.object({
+  roomId: flexibleUuidSchema, // Accept any non-empty string ID (Django session IDs are not UUIDs)
+  participantId: z.string().min(1, 'Participant ID is required'),
+});
+
+export const removeParticipantSchema = z.object({
+  roomId: flexibleUuidSchema, // Accept any non-empty string ID (Django session IDs are not UUIDs)
+  participantId: z.string().min(1, 'Participant ID is required'),
+  reason: z.string().max(200, 'Reason too long').optional(),
+});
+
+// Lobby validation schemas
+export const admitParticipantSchema = z.object({
+  roomId: flexibleUuidSchema, // Accept any non-empty string ID (Django session IDs are not UUIDs)
+  lobbyId: z.string().min(1, 'Lobby ID is required'),
+});
+
+export const denyParticipantSchema = z.object({
+  roomId: flexibleUuidSchema, // Accept any non-empty string ID (Django session IDs are not UUIDs)
+  lobbyId: z.string().min(1, 'Lobby ID is required'),
+  reason: z.string().max(200, 'Reason too long').optional(),
+});
+
+export const admitAllSchema = z.object({
+  roomId: flexibleUuidSchema, // Accept any non-empty string ID (Django session IDs are not UUIDs)
+});
+
+export const denyAllSchema = z.object({
+  roomId: flexibleUuidSchema, // Accept any non-empty string ID (Django session IDs are not UUIDs)
+  reason: z.string().max(200, 'Reason too long').optional(),
+});
+
+// Chat validation schemas
+export const sendChatMessageSchema = z.object({
+  roomId: flexibleUuidSchema, // Accept any non-empty string ID (Django session IDs are not UUIDs)
+  content: z.string().trim().min(1, 'Message is required').max(2000, 'Message too long'),
+  recipientId: z.string().min(1, 'Recipient ID cannot be empty').optional(),
+});
+
+export const getChatHistorySchema = z.object({
+  roomId: flexibleUuidSchema, // Accept any non-empty string ID (Django session IDs are not UUIDs)
+  before: z.string().datetime({ offset: true, message: 'Before must be an ISO 8601 timestamp' }).optional(),
+  limit: z.number().int().min(1, 'Limit must be at least 1').max(100, 'Limit too high').optional(),
+});
+
+export const deleteChatMessageSchema = z.object({
+  roomId: flexibleUuidSchema, // Accept any non-empty string ID (Django session IDs are not UUIDs)
+  messageId: z.string().min(1, 'Message ID is required'),
+});
+
+// Recording validation schemas
+export const startRecordingSchema = z.object({
+  roomId: flexibleUuidSchema, // Accept any non-empty string ID (Django session IDs are not UUIDs)
+});
+
+export const stopRecordingSchema = z.object({
+  roomId: flexibleUuidSchema, // Accept any non-empty string ID (Django session IDs are not UUIDs)
+});
+
+// Connection ticket validation schemas
+export const connectionTicketSchema = z.object({
+  // Django session IDs may arrive as numbers
+  roomId: z.coerce.string().pipe(flexibleUuidSchema).optional(),
+});
+
+// Admin API validation schemas
+export const adminRemovalSchema = z.object({
+  reason: z.string().max(200, 'Reason too long').optional(),
+});
+
+export const roomNoticeSchema = z.object({
+  message: z.string().min(1, 'Message is required').max(1000, 'Message too long'),
+  level: z.enum(['info', 'warning', 'critical']).optional(),
+});
+
+// Inbound Django webhook validation schemas
+export const DJANGO_WEBHOOK_EVENTS = ['session.cancelled', 'session.ended', 'enrollment.revoked', 'policy.updated'] as const;
+
+// Django session IDs may arrive as numbers
+const webhookRoomIdSchema = z.coerce.string().pipe(flexibleUuidSchema);
+
+// The signed X-Django-Timestamp header dates the request, the ID catches replays within the tolerance
+const webhookEnvelope = {
+  id: z.string().min(1, 'Webhook ID is required').max(200, 'Webhook ID too long'),
+};
+
+export const djangoWebhookSchema = z.discriminatedUnion('event', [
+  z.object({
+    ...webhookEnvelope,
+    event: z.literal('session.cancelled'),
+    data: z.object({
+      roomId: webhookRoomIdSchema,
+      reason: z.string().max(200, 'Reason too long').optional(),
+    }),
+  }),
+  z.object({
+    ...webhookEnvelope,
+    event: z.literal('session.ended'),
+    data: z.object({ roomId: webhookRoomIdSchema }),
+  }),
+  z.object({
+    ...webhookEnvelope,
+    event: z.literal('enrollment.revoked'),
+    data: z.object({
+      roomId: webhookRoomIdSchema,
+      userId: z.coerce.string().min(1, 'User ID is required'),
+    }),
+  }),
+  z.object({
+    ...webhookEnvelope,
+    event: z.literal('policy.updated'),
+    data: z.object({ roomId: webhookRoomIdSchema }),
+  }),
+]);
+
+// Session validation schemas
+export const resumeSessionSchema = z.object({
+  resumeToken: z.string().min(1, 'Resume token is required'),
+});
+
+export const refreshTokenSchema = z.object({
+  token: z.string().min(1, 'Token is required'),
+});
+
+export const tokenRevocationSchema = z.object({
+  jti: z.string().min(1, 'Token ID is required'),
+  exp: z.number().int().positive().optional(),
+});
+
 // WebSocket message validation
 export const webSocketMessageSchema = z.object({
   type: z.string().min(1, 'Message type is required'),
@@ -0,0 +1,2 @@
+// Keep test output readable, set LOG_LEVEL to see the service logs
+process.env['LOG_LEVEL'] ??= 'fatal';
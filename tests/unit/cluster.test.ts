@@ -0,0 +1,84 @@
+import { config } from '@/config';
+import { clusterService, ClusterInstance } from '@/services/cluster';
+import { redisService } from '@/services/redis';
+import { Room } from '@/types';
+
+describe('ClusterService', () => {
+  const service = clusterService as any;
+
+  const room = {
+    id: 'room-1',
+    name: 'Class',
+    instanceId: config.cluster.instanceId,
+    maxParticipants: 30,
+    participants: new Map(),
+    isActive: true,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  } as unknown as Room;
+
+  const owner: ClusterInstance = {
+    instanceId: 'sfu-other',
+    publicUrl: 'wss://sfu-other.example.com',
+    rooms: 1,
+    startedAt: new Date().toISOString(),
+    lastSeen: Date.now(),
+  };
+
+  let setRoomState: jest.SpyInstance;
+
+  beforeEach(() => {
+    jest.replaceProperty(config.cluster, 'mode', true);
+    jest.spyOn(redisService, 'isHealthy').mockReturnValue(true);
+    jest.spyOn(redisService, 'subscribe').mockResolvedValue(undefined);
+    jest.spyOn(redisService, 'unsubscribe').mockResolvedValue(undefined);
+    jest.spyOn(redisService, 'refreshRoomState').mockResolvedValue(undefined);
+    setRoomState = jest.spyOn(redisService, 'setRoomState').mockResolvedValue(undefined);
+  });
+
+  afterEach(() => {
+    service.rooms.clear();
+    service.ownershipLostHandlers = [];
+    jest.restoreAllMocks();
+  });
+
+  describe('room ownership', () => {
+    test('refreshing keeps a room this instance still owns', async () => {
+      const claimRoomOwner = jest.spyOn(redisService, 'claimRoomOwner').mockResolvedValue(true);
+      await clusterService.registerRoom(room);
+
+      await service.refreshRooms();
+
+      expect(claimRoomOwner).toHaveBeenLastCalledWith('room-1', config.cluster.instanceId, expect.any(Number));
+      expect(setRoomState).toHaveBeenCalledTimes(2);
+      expect(service.rooms.has('room-1')).toBe(true);
+    });
+
+    test('a room another instance took over is given up and reported with its new owner', async () => {
+      jest.spyOn(redisService, 'claimRoomOwner').mockResolvedValueOnce(true).mockResolvedValueOnce(false);
+      jest.spyOn(redisService, 'getRoomOwner').mockResolvedValue('sfu-other');
+      jest.spyOn(redisService, 'getInstance').mockResolvedValue(owner);
+      const handler = jest.fn();
+      clusterService.onOwnershipLost(handler);
+      await clusterService.registerRoom(room);
+
+      await service.refreshRooms();
+
+      expect(handler).toHaveBeenCalledWith('room-1', owner);
+      expect(setRoomState).toHaveBeenCalledTimes(1);
+      expect(service.rooms.has('room-1')).toBe(false);
+    });
+
+    test('registering a room another instance owns does not take it over', async () => {
+      jest.spyOn(redisService, 'claimRoomOwner').mockResolvedValue(false);
+      jest.spyOn(redisService, 'getRoomOwner').mockResolvedValue(null);
+      const handler = jest.fn();
+      clusterService.onOwnershipLost(handler);
+
+      await clusterService.registerRoom(room);
+
+      expect(handler).toHaveBeenCalledWith('room-1', null);
+      expect(setRoomState).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,143 @@
+import axios, { AxiosResponse } from 'axios';
+import { config } from '@/config';
+import { DjangoClient, DjangoCall } from '@/services/django';
+import { SFUError } from '@/types';
+import { ERROR_CODES } from '@/utils/errors';
+
+describe('DjangoClient', () => {
+  let client: DjangoClient;
+  let request: jest.SpyInstance;
+
+  const call = (key: string, endpoint: DjangoCall<unknown>['endpoint'] = 'user'): DjangoCall<unknown> => ({
+    endpoint,
+    key,
+    method: 'get',
+    path: `/api/sfu/${endpoint}/${key}/`,
+    parse: (response: AxiosResponse) => response.data,
+  });
+
+  const networkError = () => Object.assign(new Error('connect ECONNREFUSED'), { isAxiosError: true });
+
+  const failTimes = async (count: number) => {
+    for (let i = 0; i < count; i++) {
+      await expect(client.request(call(`failing-${i}`))).rejects.toThrow(SFUError);
+    }
+  };
+
+  beforeEach(() => {
+    client = new DjangoClient();
+    request = jest.spyOn(axios, 'request');
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  describe('circuit breaker', () => {
+    test('opens after the failure threshold and stops calling Django', async () => {
+      request.mockRejectedValue(networkError());
+
+      await failTimes(config.django.breaker.failureThreshold);
+      expect(client.getStatus().circuit).toBe('open');
+
+      request.mockClear();
+      await expect(client.request(call('other'))).rejects.toMatchObject({ code: ERROR_CODES.DJANGO_CONNECTION_ERROR });
+      expect(request).not.toHaveBeenCalled();
+    });
+
+    test('4xx answers do not count as failures', async () => {
+      request.mockResolvedValue({ status: 404, data: null });
+
+      for (let i = 0; i < config.django.breaker.failureThreshold; i++) {
+        await client.request(call(`missing-${i}`));
+      }
+
+      expect(client.getStatus()).toMatchObject({ circuit: 'closed', consecutiveFailures: 0 });
+    });
+
+    test('a success resets the failure count', async () => {
+      request.mockRejectedValue(networkError());
+      await failTimes(config.django.breaker.failureThreshold - 1);
+
+      request.mockResolvedValue({ status: 200, data: {} });
+      await client.request(call('ok'));
+
+      expect(client.getStatus()).toMatchObject({ circuit: 'closed', consecutiveFailures: 0 });
+    });
+
+    test('lets a single probe through once the reset timeout passed', async () => {
+      request.mockRejectedValue(networkError());
+      await failTimes(config.django.breaker.failureThreshold);
+
+      jest.setSystemTime(Date.now() + config.django.breaker.resetTimeout);
+      expect(client.getStatus().circuit).toBe('half-open');
+
+      let answer!: (response: unknown) => void;
+      request.mockReset().mockReturnValue(new Promise(resolve => {
+        answer = resolve;
+      }));
+
+      const probe = client.request(call('probe'));
+      await expect(client.request(call('second'))).rejects.toMatchObject({ code: ERROR_CODES.DJANGO_CONNECTION_ERROR });
+      expect(request).toHaveBeenCalledTimes(1);
+
+      answer({ status: 200, data: { ok: true } });
+      await expect(probe).resolves.toEqual({ ok: true });
+      expect(client.getStatus().circuit).toBe('closed');
+    });
+
+    test('a failed probe opens the circuit again', async () => {
+      request.mockRejectedValue(networkError());
+      await failTimes(config.django.breaker.failureThreshold);
+
+      jest.setSystemTime(Date.now() + config.django.breaker.resetTimeout);
+      request.mockClear();
+      await expect(client.request(call('probe'))).rejects.toThrow(SFUError);
+
+      expect(request).toHaveBeenCalledTimes(1);
+      expect(client.getStatus().circuit).toBe('open');
+    });
+  });
+
+  describe('fail open', () => {
+    test('answers configured endpoints from the fallback while Django is down', async () => {
+      request.mockRejectedValue(networkError());
+
+      const endpoint = config.django.failOpen[0] as DjangoCall<unknown>['endpoint'];
+      await expect(client.request(call('room-1', endpoint), () => 'fallback')).resolves.toBe('fallback');
+    });
+
+    test('other endpoints fail closed even with a fallback', async () => {
+      request.mockRejectedValue(networkError());
+
+      await expect(client.request(call('user-1', 'user'), () => 'fallback')).rejects.toMatchObject({
+        code: ERROR_CODES.DJANGO_CONNECTION_ERROR,
+      });
+    });
+  });
+
+  describe('caching', () => {
+    test('concurrent identical calls share one request', async () => {
+      request.mockResolvedValue({ status: 200, data: { id: 'user-1' } });
+
+      const answers = await Promise.all([client.request(call('user-1')), client.request(call('user-1'))]);
+
+      expect(answers).toEqual([{ id: 'user-1' }, { id: 'user-1' }]);
+      expect(request).toHaveBeenCalledTimes(1);
+    });
+
+    test('answers are reused until invalidated', async () => {
+      request.mockResolvedValue({ status: 200, data: { id: 'user-1' } });
+
+      await client.request(call('user-1'));
+      await client.request(call('user-1'));
+      expect(request).toHaveBeenCalledTimes(1);
+
+      client.invalidate('user', 'user-1');
+      await client.request(call('user-1'));
+      expect(request).toHaveBeenCalledTimes(2);
+    });
+  });
+});
@@ -0,0 +1,60 @@
+import { permissionService, DEFAULT_PERMISSIONS, Permission } from '@/services/permission';
+import { User } from '@/types';
+
+describe('PermissionService', () => {
+  const roles = Object.keys(DEFAULT_PERMISSIONS) as Array<User['role']>;
+
+  describe('resolve', () => {
+    test.each(roles)('%s gets the default permissions without a policy', (role) => {
+      expect(permissionService.resolve(role)).toEqual(new Set(DEFAULT_PERMISSIONS[role]));
+    });
+
+    test('students and parents cannot moderate, record or create rooms', () => {
+      for (const role of ['student', 'parent'] as const) {
+        const permissions = permissionService.resolve(role);
+        expect(permissions.has('moderate')).toBe(false);
+        expect(permissions.has('record')).toBe(false);
+        expect(permissions.has('createRoom')).toBe(false);
+        expect(permissions.has('chat')).toBe(true);
+      }
+    });
+
+    test('teachers, staff and super admins get every permission', () => {
+      for (const role of ['teacher', 'staff', 'super_admin'] as const) {
+        expect(permissionService.resolve(role).size).toBe(9);
+      }
+    });
+
+    test('a policy replaces the list for the roles it names', () => {
+      const policy = { permissions: { student: ['subscribe', 'chat'] } };
+
+      expect(permissionService.resolve('student', policy)).toEqual(new Set<Permission>(['subscribe', 'chat']));
+      expect(permissionService.resolve('teacher', policy)).toEqual(new Set(DEFAULT_PERMISSIONS.teacher));
+    });
+
+    test('an empty list takes every permission away', () => {
+      expect(permissionService.resolve('teacher', { permissions: { teacher: [] } }).size).toBe(0);
+    });
+
+    test('unknown permission names are dropped', () => {
+      const policy = { permissions: { student: ['chat', 'deleteRoom'] } };
+
+      expect(permissionService.resolve('student', policy, 'room-1')).toEqual(new Set<Permission>(['chat']));
+    });
+
+    test('a malformed override keeps the defaults', () => {
+      const policy = { permissions: { student: 'chat' } };
+
+      expect(permissionService.resolve('student', policy)).toEqual(new Set(DEFAULT_PERMISSIONS.student));
+    });
+  });
+
+  describe('getPublishPermission', () => {
+    test('maps producer kinds and screen shares', () => {
+      expect(permissionService.getPublishPermission('audio')).toBe('publishAudio');
+      expect(permissionService.getPublishPermission('video')).toBe('publishVideo');
+      expect(permissionService.getPublishPermission('video', { source: 'camera' })).toBe('publishVideo');
+      expect(permissionService.getPublishPermission('video', { source: 'screen' })).toBe('publishScreen');
+    });
+  });
+});
@@ -0,0 +1,76 @@
+import { roomService } from '@/services/room';
+import { authService } from '@/services/auth';
+import { mediasoupService } from '@/services/mediasoup';
+import { speakerService } from '@/services/speaker';
+import { clusterService } from '@/services/cluster';
+import { Room, RoomPolicy } from '@/types';
+
+// Ships as ESM only, and these tests never verify tokens against a JWKS
+jest.mock('jwks-client', () => jest.fn());
+
+describe('RoomService', () => {
+  const service = roomService as any;
+
+  const createPolicy = (maxParticipants: number): RoomPolicy => ({
+    maxParticipants,
+    maxBitrate: 1000000,
+    maxDevicesPerUser: 1,
+    allowScreenSharing: true,
+    allowRecording: false,
+    requireModeratorApproval: false,
+    allowedKinds: ['audio', 'video'],
+    maxVideoPublishers: 0,
+  });
+
+  beforeEach(() => {
+    jest.spyOn(mediasoupService, 'getWorker').mockReturnValue({} as any);
+    jest.spyOn(mediasoupService, 'createRouter').mockResolvedValue({ close: jest.fn() } as any);
+    jest.spyOn(speakerService, 'attachRoom').mockResolvedValue(undefined);
+    jest.spyOn(clusterService, 'registerRoom').mockResolvedValue(undefined);
+    jest.spyOn(service, 'persist').mockResolvedValue(undefined);
+  });
+
+  afterEach(() => {
+    service.rooms.clear();
+    jest.restoreAllMocks();
+  });
+
+  describe('participant cap', () => {
+    test('createRoom without a cap takes the policy maxParticipants', async () => {
+      jest.spyOn(authService, 'getRoomPolicy').mockResolvedValue(createPolicy(30));
+
+      const room = await roomService.createRoom('Class', undefined, undefined, 'room-1');
+
+      expect(room.maxParticipants).toBe(30);
+    });
+
+    test('the policy lowers a larger requested cap', async () => {
+      jest.spyOn(authService, 'getRoomPolicy').mockResolvedValue(createPolicy(30));
+
+      const room = await roomService.createRoom('Class', undefined, 50, 'room-1');
+
+      expect(room.maxParticipants).toBe(30);
+    });
+
+    test('an auto-created room gets the joining user\'s entitled cap', async () => {
+      jest.spyOn(authService, 'getRoomPolicy').mockResolvedValue(createPolicy(100));
+      const createRoom = jest.spyOn(roomService, 'createRoom');
+
+      await roomService.joinRoom('room-1', 'user-1', { id: 'user-1' }, 'Student', undefined, undefined, 20);
+
+      expect(createRoom).toHaveBeenCalledWith(expect.any(String), expect.any(String), 20, 'room-1');
+      expect(roomService.getRoom('room-1')?.maxParticipants).toBe(20);
+    });
+
+    test('refreshRoomPolicy applies a changed maxParticipants within the requested cap', async () => {
+      jest.spyOn(authService, 'getRoomPolicy').mockResolvedValue(createPolicy(30));
+      const room: Room = await roomService.createRoom('Class', undefined, 50, 'room-1');
+
+      await roomService.refreshRoomPolicy('room-1', createPolicy(10));
+      expect(room.maxParticipants).toBe(10);
+
+      await roomService.refreshRoomPolicy('room-1', createPolicy(200));
+      expect(room.maxParticipants).toBe(50);
+    });
+  });
+});
@@ -0,0 +1,224 @@
+import { createHmac } from 'crypto';
+import axios from 'axios';
+import { Request, Response } from 'express';
+import { config } from '@/config';
+import { webhookController } from '@/controllers/webhook';
+import { requireDjangoSignature } from '@/middleware/security';
+import { webSocketService } from '@/services/websocket';
+import { databaseService } from '@/services/database';
+import { redisService } from '@/services/redis';
+import { clusterService } from '@/services/cluster';
+import { webhookService } from '@/services/webhook';
+import { WebhookOutboxRecord } from '@/types';
+import { ERROR_CODES } from '@/utils/errors';
+
+// Ships as ESM only, and these tests never verify tokens against a JWKS
+jest.mock('jwks-client', () => jest.fn());
+
+interface FakeResponse {
+  statusCode: number;
+  body: any;
+  status: (code: number) => FakeResponse;
+  json: (body: unknown) => FakeResponse;
+  end: () => FakeResponse;
+}
+
+const createResponse = (): FakeResponse => {
+  const res: FakeResponse = {
+    statusCode: 200,
+    body: undefined,
+    status: code => {
+      res.statusCode = code;
+      return res;
+    },
+    json: body => {
+      res.body = body;
+      return res;
+    },
+    end: () => res,
+  };
+  return res;
+};
+
+const sign = (payload: string): string =>
+  `sha256=${createHmac('sha256', config.django.webhookSecret).update(payload).digest('hex')}`;
+
+const createSignedRequest = (body: unknown, headers: Record<string, string> = {}): Request => {
+  const rawBody = Buffer.from(JSON.stringify(body));
+  const timestamp = String(Math.floor(Date.now() / 1000));
+  const allHeaders: Record<string, string> = {
+    'x-django-timestamp': timestamp,
+    'x-django-signature': sign(`${timestamp}.${rawBody.toString('utf8')}`),
+    ...headers,
+  };
+
+  return {
+    body,
+    rawBody,
+    ip: '127.0.0.1',
+    path: '/internal/webhooks',
+    get: (name: string) => allHeaders[name.toLowerCase()],
+  } as unknown as Request;
+};
+
+describe('requireDjangoSignature', () => {
+  const body = { id: 'webhook-1', event: 'session.ended', data: { roomId: 'room-1' } };
+
+  const check = (req: Request): { res: FakeResponse; next: jest.Mock } => {
+    const res = createResponse();
+    const next = jest.fn();
+    requireDjangoSignature(req, res as unknown as Response, next);
+    return { res, next };
+  };
+
+  test('accepts a request signed over the timestamp and body', () => {
+    const { res, next } = check(createSignedRequest(body));
+
+    expect(next).toHaveBeenCalled();
+    expect(res.statusCode).toBe(200);
+  });
+
+  test('rejects a wrong signature', () => {
+    const { res, next } = check(createSignedRequest(body, { 'x-django-signature': sign('something else') }));
+
+    expect(next).not.toHaveBeenCalled();
+    expect(res.statusCode).toBe(401);
+  });
+
+  test('rejects a signature over the body alone', () => {
+    const { res, next } = check(createSignedRequest(body, { 'x-django-signature': sign(JSON.stringify(body)) }));
+
+    expect(next).not.toHaveBeenCalled();
+    expect(res.statusCode).toBe(401);
+  });
+
+  test('rejects a missing timestamp', () => {
+    const { res, next } = check(createSignedRequest(body, { 'x-django-timestamp': '' }));
+
+    expect(next).not.toHaveBeenCalled();
+    expect(res.statusCode).toBe(401);
+  });
+
+  test('rejects a correctly signed request with a stale timestamp', () => {
+    const stale = String(Math.floor(Date.now() / 1000) - config.django.webhookTolerance - 1);
+    const payload = `${stale}.${JSON.stringify(body)}`;
+    const { res, next } = check(createSignedRequest(body, {
+      'x-django-timestamp': stale,
+      'x-django-signature': sign(payload),
+    }));
+
+    expect(next).not.toHaveBeenCalled();
+    expect(res.statusCode).toBe(401);
+  });
+});
+
+describe('WebhookController', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  afterAll(() => {
+    webSocketService.cleanup();
+  });
+
+  describe('receive', () => {
+    const body = { id: 'webhook-1', event: 'session.ended', data: { roomId: 'room-unknown' } };
+
+    test('ignores a replayed webhook ID', async () => {
+      jest.spyOn(redisService, 'isHealthy').mockReturnValue(true);
+      jest.spyOn(redisService, 'markWebhookReceived').mockResolvedValue(false);
+      const res = createResponse();
+
+      await webhookController.receive(createSignedRequest(body), res as unknown as Response);
+
+      expect(res.statusCode).toBe(200);
+      expect(res.body).toEqual({ event: 'session.ended', applied: false, duplicate: true });
+    });
+
+    test('records the webhook ID for twice the timestamp tolerance', async () => {
+      jest.spyOn(redisService, 'isHealthy').mockReturnValue(true);
+      const markWebhookReceived = jest.spyOn(redisService, 'markWebhookReceived').mockResolvedValue(true);
+      const res = createResponse();
+
+      await webhookController.receive(createSignedRequest(body), res as unknown as Response);
+
+      expect(markWebhookReceived).toHaveBeenCalledWith('webhook-1', config.django.webhookTolerance * 2);
+      expect(res.body).toEqual({ event: 'session.ended', applied: false });
+    });
+
+    test('sends a webhook for a room hosted elsewhere back with the owner, without recording its ID', async () => {
+      jest.spyOn(redisService, 'isHealthy').mockReturnValue(true);
+      jest.spyOn(clusterService, 'getRemoteOwner').mockResolvedValue({
+        instanceId: 'sfu-other',
+        publicUrl: 'wss://sfu-other.example.com',
+        rooms: 1,
+        startedAt: new Date().toISOString(),
+        lastSeen: Date.now(),
+      });
+      const markWebhookReceived = jest.spyOn(redisService, 'markWebhookReceived');
+      const res = createResponse();
+
+      await webhookController.receive(createSignedRequest(body), res as unknown as Response);
+
+      expect(res.statusCode).toBe(421);
+      expect(res.body.code).toBe(ERROR_CODES.ROOM_ALREADY_EXISTS);
+      expect(res.body.details).toEqual({ roomId: 'room-unknown', instanceId: 'sfu-other', url: 'wss://sfu-other.example.com' });
+      expect(markWebhookReceived).not.toHaveBeenCalled();
+    });
+
+    test('requires a webhook ID', async () => {
+      const res = createResponse();
+
+      await webhookController.receive(createSignedRequest({ ...body, id: undefined }), res as unknown as Response);
+
+      expect(res.statusCode).toBe(400);
+    });
+
+    test('answers 503 while Redis is unavailable', async () => {
+      jest.spyOn(redisService, 'isHealthy').mockReturnValue(false);
+      const res = createResponse();
+
+      await webhookController.receive(createSignedRequest(body), res as unknown as Response);
+
+      expect(res.statusCode).toBe(503);
+      expect(res.body.code).toBe(ERROR_CODES.SERVICE_UNAVAILABLE);
+    });
+  });
+
+  describe('outbox', () => {
+    test('answers 503 with SERVICE_UNAVAILABLE while the database is down', async () => {
+      jest.spyOn(databaseService, 'isHealthy').mockReturnValue(false);
+      const res = createResponse();
+
+      await webhookController.outboxStats({} as Request, res as unknown as Response);
+
+      expect(res.statusCode).toBe(503);
+      expect(res.body.code).toBe(ERROR_CODES.SERVICE_UNAVAILABLE);
+    });
+  });
+});
+
+describe('WebhookService', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('outbox deliveries carry the outbox ID as idempotency key', async () => {
+    const post = jest.spyOn(axios, 'post').mockResolvedValue({ status: 200 });
+    jest.spyOn(databaseService, 'completeWebhook').mockResolvedValue(undefined);
+    const record = {
+      id: 'outbox-1',
+      event: 'room.ended',
+      payload: { event: 'room.ended', timestamp: new Date().toISOString(), data: {}, signature: 'sha256=00' },
+      attempts: 3,
+    } as unknown as WebhookOutboxRecord;
+
+    await (webhookService as any).deliver(record);
+
+    expect(post).toHaveBeenCalledWith(
+      expect.any(String),
+      expect.objectContaining({ id: 'outbox-1' }),
+      expect.objectContaining({ headers: expect.objectContaining({ 'X-Webhook-Id': 'outbox-1' }) })
+    );
+  });
+});
@@ -0,0 +1,388 @@
+import WebSocket from 'ws';
+import { webSocketService, WebSocketConnection, TOKEN_EXPIRED_CLOSE_CODE, TOKEN_REVOKED_CLOSE_CODE } from '@/services/websocket';
+import { permissionService } from '@/services/permission';
+import { roomService } from '@/services/room';
+import { chatService } from '@/services/chat';
+import { authService } from '@/services/auth';
+import { webhookService } from '@/services/webhook';
+import { config } from '@/config';
+import { ERROR_CODES } from '@/utils/errors';
+import { Participant, Room, User, UserEntitlements } from '@/types';
+
+// Ships as ESM only, and these tests never verify tokens against a JWKS
+jest.mock('jwks-client', () => jest.fn());
+
+describe('WebSocketService', () => {
+  const service = webSocketService as any;
+
+  const createConnection = (role: User['role'], roomId = 'room-1'): WebSocketConnection => {
+    const connection: WebSocketConnection = {
+      id: `connection-${role}`,
+      ws: { readyState: WebSocket.OPEN, send: jest.fn(), close: jest.fn() } as unknown as WebSocket,
+      user: {
+        id: `user-${role}`,
+        email: `${role}@example.com`,
+        fullName: role,
+        role,
+        isActive: true,
+        createdAt: new Date().toISOString(),
+        updatedAt: new Date().toISOString(),
+      },
+      claims: {
+        user_id: `user-${role}`,
+        email: `${role}@example.com`,
+        full_name: role,
+        role,
+        exp: Math.floor(Date.now() / 1000) + 3600,
+        iat: Math.floor(Date.now() / 1000),
+        jti: `jti-${role}`,
+        token_type: 'access',
+      },
+      participantId: `participant-${role}`,
+      roomId,
+      permissions: permissionService.resolve(role),
+      resumeToken: 'resume-token',
+      isAlive: true,
+      lastPing: Date.now(),
+      createdAt: new Date(),
+    };
+    service.connections.set(connection.id, connection);
+    return connection;
+  };
+
+  const lastMessage = (connection: WebSocketConnection): any => {
+    const send = connection.ws.send as jest.Mock;
+    return JSON.parse(send.mock.calls[send.mock.calls.length - 1][0]);
+  };
+
+  afterEach(() => {
+    service.connections.clear();
+    jest.restoreAllMocks();
+  });
+
+  afterAll(() => {
+    webSocketService.cleanup();
+  });
+
+  describe('permission checks', () => {
+    test('denied moderator action returns AUTH_INSUFFICIENT_PERMISSIONS', async () => {
+      const connection = createConnection('student');
+
+      await service.handleMessage(connection, {
+        type: 'muteParticipant',
+        data: { roomId: 'room-1', participantId: 'participant-other' },
+        requestId: 'request-1',
+      });
+
+      const message = lastMessage(connection);
+      expect(message.type).toBe('error');
+      expect(message.code).toBe(ERROR_CODES.AUTH_INSUFFICIENT_PERMISSIONS);
+      expect(message.details).toEqual({ permission: 'moderate' });
+      expect(message.requestId).toBe('request-1');
+    });
+  });
+
+  describe('createRoom', () => {
+    test('reports this instance as the owner in the room.created webhook', async () => {
+      jest.spyOn(authService, 'checkUserEntitlements').mockResolvedValue({
+        canCreateRooms: true,
+        canJoinRooms: true,
+        canScreenShare: true,
+        canRecord: true,
+        maxRoomsPerUser: 10,
+        maxParticipantsPerRoom: 50,
+      } as UserEntitlements);
+      jest.spyOn(roomService, 'createRoom').mockImplementation(async (name, _description, maxParticipants) =>
+        ({ id: 'room-new', name, maxParticipants, instanceId: config.cluster.instanceId }) as Room);
+      const sendRoomCreated = jest.spyOn(webhookService, 'sendRoomCreated').mockResolvedValue(undefined);
+      const connection = createConnection('teacher');
+      delete connection.participantId;
+      delete connection.roomId;
+
+      await service.handleMessage(connection, { type: 'createRoom', data: { name: 'Class' } });
+
+      expect(sendRoomCreated).toHaveBeenCalledWith('room-new', 'Class', undefined, 50, 'user-teacher', config.cluster.instanceId);
+    });
+  });
+
+  describe('recording', () => {
+    test('cannot start recording in another room', async () => {
+      const startRecording = jest.spyOn(roomService, 'startRecording');
+      const connection = createConnection('teacher', 'room-1');
+
+      await service.handleMessage(connection, { type: 'startRecording', data: { roomId: 'room-2' } });
+
+      const message = lastMessage(connection);
+      expect(message.code).toBe(ERROR_CODES.PARTICIPANT_NOT_IN_ROOM);
+      expect(message.details).toEqual({ roomId: 'room-2' });
+      expect(startRecording).not.toHaveBeenCalled();
+    });
+
+    test('cannot stop recording in another room', async () => {
+      const stopRecording = jest.spyOn(roomService, 'stopRecording');
+      const connection = createConnection('teacher', 'room-1');
+
+      await service.handleMessage(connection, { type: 'stopRecording', data: { roomId: 'room-2' } });
+
+      expect(lastMessage(connection).type).toBe('error');
+      expect(stopRecording).not.toHaveBeenCalled();
+    });
+
+    test('returns RECORDING_NOT_ALLOWED when the room policy forbids recording', async () => {
+      const connection = createConnection('teacher', 'room-1');
+
+      await service.handleMessage(connection, { type: 'startRecording', data: { roomId: 'room-1' } });
+
+      const message = lastMessage(connection);
+      expect(message.code).toBe(ERROR_CODES.RECORDING_NOT_ALLOWED);
+      expect(message.details).toEqual({ roomId: 'room-1' });
+    });
+  });
+
+  describe('session resume', () => {
+    test('unknown resume token returns SESSION_NOT_FOUND', async () => {
+      const connection = createConnection('student');
+      delete connection.participantId;
+      delete connection.roomId;
+
+      await service.handleMessage(connection, { type: 'resumeSession', data: { resumeToken: 'unknown' } });
+
+      expect(lastMessage(connection).code).toBe(ERROR_CODES.SESSION_NOT_FOUND);
+    });
+  });
+
+  describe('token lifetime', () => {
+    const participant = { id: 'participant-student', roomId: 'room-1' } as Participant;
+
+    beforeEach(() => {
+      jest.spyOn(roomService, 'getParticipant').mockReturnValue(participant);
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    test('an expired token removes the participant instead of holding the session', () => {
+      jest.useFakeTimers();
+      const leaveRoom = jest.spyOn(roomService, 'leaveRoom').mockResolvedValue(undefined);
+      const connection = createConnection('student');
+      connection.claims.exp = Math.floor(Date.now() / 1000) - 1;
+
+      service.scheduleTokenExpiry(connection);
+      jest.runOnlyPendingTimers();
+
+      expect(connection.ws.close).toHaveBeenCalledWith(TOKEN_EXPIRED_CLOSE_CODE, 'Token expired');
+      expect(leaveRoom).toHaveBeenCalledWith('room-1', 'participant-student');
+      expect(service.heldSessions.size).toBe(0);
+    });
+
+    test('a revoked token removes the participant instead of holding the session', () => {
+      const leaveRoom = jest.spyOn(roomService, 'leaveRoom').mockResolvedValue(undefined);
+      const connection = createConnection('student');
+
+      service.handleTokenRevoked('jti-student');
+
+      expect(connection.ws.close).toHaveBeenCalledWith(TOKEN_REVOKED_CLOSE_CODE, 'Token revoked');
+      expect(leaveRoom).toHaveBeenCalledWith('room-1', 'participant-student');
+      expect(service.connections.size).toBe(0);
+      expect(service.heldSessions.size).toBe(0);
+    });
+
+    test('a revoked token ends a session held after an earlier drop', () => {
+      const leaveRoom = jest.spyOn(roomService, 'leaveRoom').mockResolvedValue(undefined);
+      jest.spyOn(roomService, 'setParticipantReconnecting').mockReturnValue(undefined);
+      const connection = createConnection('student');
+      service.handleDisconnection(connection);
+      expect(service.heldSessions.size).toBe(1);
+
+      service.handleTokenRevoked('jti-student');
+
+      expect(leaveRoom).toHaveBeenCalledWith('room-1', 'participant-student');
+      expect(service.heldSessions.size).toBe(0);
+    });
+  });
+
+  describe('cluster ownership', () => {
+    test('connections are redirected when another instance takes the room over', async () => {
+      jest.spyOn(roomService, 'getRoom').mockReturnValue({ id: 'room-1', participants: new Map() } as Room);
+      jest.spyOn(roomService, 'getLobbyEntries').mockReturnValue([]);
+      const deleteRoom = jest.spyOn(roomService, 'deleteRoom').mockResolvedValue(undefined);
+      const connection = createConnection('student');
+      service.roomConnections.set('room-1', new Set([connection.id]));
+
+      await service.handleRoomOwnershipLost('room-1', {
+        instanceId: 'sfu-other',
+        publicUrl: 'wss://sfu-other.example.com',
+      });
+
+      expect(lastMessage(connection)).toMatchObject({
+        type: 'redirect',
+        data: { roomId: 'room-1', instanceId: 'sfu-other', url: 'wss://sfu-other.example.com' },
+      });
+      expect(connection.roomId).toBeUndefined();
+      expect(deleteRoom).toHaveBeenCalledWith('room-1');
+    });
+  });
+
+  describe('lobby', () => {
+    test('admitting an unknown lobby entry returns LOBBY_ENTRY_NOT_FOUND', async () => {
+      const connection = createConnection('teacher');
+
+      await service.handleMessage(connection, { type: 'admitParticipant', data: { roomId: 'room-1', lobbyId: 'unknown' } });
+
+      const message = lastMessage(connection);
+      expect(message.code).toBe(ERROR_CODES.LOBBY_ENTRY_NOT_FOUND);
+      expect(message.details).toEqual({ roomId: 'room-1' });
+    });
+  });
+
+  describe('chat', () => {
+    test('deleting an unknown message returns CHAT_MESSAGE_NOT_FOUND', async () => {
+      jest.spyOn(chatService, 'deleteMessage').mockResolvedValue(undefined);
+      const connection = createConnection('teacher');
+
+      await service.handleMessage(connection, { type: 'deleteChatMessage', data: { roomId: 'room-1', messageId: 'unknown' } });
+
+      const message = lastMessage(connection);
+      expect(message.code).toBe(ERROR_CODES.CHAT_MESSAGE_NOT_FOUND);
+      expect(message.details).toEqual({ roomId: 'room-1' });
+    });
+
+    test('chatting in another room returns PARTICIPANT_NOT_IN_ROOM', async () => {
+      const connection = createConnection('student', 'room-1');
+
+      await service.handleMessage(connection, { type: 'getChatHistory', data: { roomId: 'room-2' } });
+
+      const message = lastMessage(connection);
+      expect(message.code).toBe(ERROR_CODES.PARTICIPANT_NOT_IN_ROOM);
+      expect(message.details).toEqual({ roomId: 'room-2' });
+    });
+
+    test('a private message to an unknown recipient returns PARTICIPANT_NOT_FOUND', async () => {
+      jest.spyOn(roomService, 'getParticipant').mockImplementation(id =>
+        id === 'participant-student' ? ({ id, roomId: 'room-1' } as Participant) : undefined);
+      const connection = createConnection('student');
+
+      await service.handleMessage(connection, {
+        type: 'sendChatMessage',
+        data: { roomId: 'room-1', content: 'hello', recipientId: 'unknown' },
+      });
+
+      const message = lastMessage(connection);
+      expect(message.code).toBe(ERROR_CODES.PARTICIPANT_NOT_FOUND);
+      expect(message.details).toEqual({ participantId: 'unknown', roomId: 'room-1' });
+    });
+  });
+
+  describe('connection tickets', () => {
+    test('joining another room than the ticket allows returns ROOM_ACCESS_DENIED', async () => {
+      const connection = createConnection('student');
+      delete connection.participantId;
+      delete connection.roomId;
+      connection.ticketRoomId = 'room-1';
+
+      await service.handleMessage(connection, { type: 'joinRoom', data: { roomId: 'room-2', displayName: 'Student' } });
+
+      const message = lastMessage(connection);
+      expect(message.code).toBe(ERROR_CODES.ROOM_ACCESS_DENIED);
+      expect(message.details).toEqual({ roomId: 'room-2' });
+    });
+  });
+
+  describe('removeParticipant', () => {
+    test('removing yourself returns VALIDATION_ERROR', async () => {
+      const connection = createConnection('teacher');
+
+      await service.handleMessage(connection, { type: 'removeParticipant', data: { roomId: 'room-1', participantId: 'participant-teacher' } });
+
+      expect(lastMessage(connection).code).toBe(ERROR_CODES.VALIDATION_ERROR);
+    });
+
+    test('removing an unknown participant returns PARTICIPANT_NOT_FOUND', async () => {
+      const connection = createConnection('teacher');
+
+      await service.handleMessage(connection, { type: 'removeParticipant', data: { roomId: 'room-1', participantId: 'unknown' } });
+
+      const message = lastMessage(connection);
+      expect(message.code).toBe(ERROR_CODES.PARTICIPANT_NOT_FOUND);
+      expect(message.details).toEqual({ participantId: 'unknown', roomId: 'room-1' });
+    });
+  });
+
+  describe('moderator mute', () => {
+    const createParticipant = (): Participant => {
+      const producer = { pause: jest.fn().mockResolvedValue(undefined), resume: jest.fn().mockResolvedValue(undefined) };
+      return {
+        id: 'participant-student',
+        roomId: 'room-1',
+        producers: new Map([
+          ['audio-1', { id: 'audio-1', kind: 'audio', paused: false, appData: {}, producer }],
+          ['video-1', { id: 'video-1', kind: 'video', paused: true, appData: {}, producer }],
+        ]),
+        moderatorMutedMedia: new Set(),
+        sendTransport: {},
+      } as unknown as Participant;
+    };
+
+    beforeEach(() => {
+      jest.spyOn(roomService, 'updateMediaState').mockResolvedValue(undefined);
+    });
+
+    test('participant cannot resume a producer a moderator muted', async () => {
+      const participant = createParticipant();
+      jest.spyOn(roomService as any, 'getRoomParticipant').mockReturnValue(participant);
+      jest.spyOn(roomService, 'getParticipant').mockReturnValue(participant);
+      await roomService.muteParticipant('room-1', participant.id);
+
+      const connection = createConnection('student');
+      await service.handleMessage(connection, { type: 'resumeProducer', data: { roomId: 'room-1', producerId: 'audio-1' } });
+
+      expect(lastMessage(connection).code).toBe(ERROR_CODES.PRODUCER_PAUSED_BY_MODERATOR);
+      expect(participant.producers.get('audio-1')?.paused).toBe(true);
+    });
+
+    test('producers the participant had paused stay held after disableParticipantVideo', async () => {
+      const participant = createParticipant();
+      jest.spyOn(roomService as any, 'getRoomParticipant').mockReturnValue(participant);
+      jest.spyOn(roomService, 'getParticipant').mockReturnValue(participant);
+      await roomService.disableParticipantVideo('room-1', participant.id);
+
+      const connection = createConnection('student');
+      await service.handleMessage(connection, { type: 'resumeProducer', data: { roomId: 'room-1', producerId: 'video-1' } });
+
+      expect(lastMessage(connection).code).toBe(ERROR_CODES.PRODUCER_PAUSED_BY_MODERATOR);
+    });
+
+    test('a muted participant cannot publish a new producer of the muted kind', async () => {
+      const participant = createParticipant();
+      jest.spyOn(roomService as any, 'getRoomParticipant').mockReturnValue(participant);
+      await roomService.muteParticipant('room-1', participant.id);
+      const room = {
+        id: 'room-1',
+        policy: { allowedKinds: ['audio', 'video'], allowScreenSharing: true, maxVideoPublishers: 0 },
+        participants: new Map([[participant.id, participant]]),
+      };
+      (roomService as any).rooms.set('room-1', room);
+
+      try {
+        await expect(roomService.createProducer('room-1', participant.id, 'audio', {} as any))
+          .rejects.toMatchObject({ code: ERROR_CODES.PRODUCER_PAUSED_BY_MODERATOR, details: { kind: 'audio' } });
+
+        roomService.unmuteParticipant('room-1', participant.id);
+        expect(() => (roomService as any).assertProducerAllowed(room, participant, 'audio')).not.toThrow();
+      } finally {
+        (roomService as any).rooms.delete('room-1');
+      }
+    });
+
+    test('unmuteParticipant only releases audio producers', async () => {
+      const participant = createParticipant();
+      jest.spyOn(roomService as any, 'getRoomParticipant').mockReturnValue(participant);
+      await roomService.muteParticipant('room-1', participant.id);
+      await roomService.disableParticipantVideo('room-1', participant.id);
+
+      expect(roomService.unmuteParticipant('room-1', participant.id)).toEqual(['audio-1']);
+      expect(participant.moderatorMutedMedia).toEqual(new Set(['camera']));
+    });
+  });
+});